@@ -0,0 +1,55 @@
+// Run the Monte Carlo simulator from the command line.
+//
+//   npm run simulate -- hold_at_20 hold_at_n:25 optimal --games=5000 --target=100 --seed=1
+//
+// Strategies: hold_at_20, hold_at_n:<N>, race, optimal. Add --official or
+// --kids to play under those rule sets (default Simplified Classic).
+
+import { DEFAULT_SETTINGS } from "../src/game/engine";
+import { KIDS_MODE, OFFICIAL_1977 } from "../src/game/rules";
+import { simulate } from "../src/game/simulate";
+import type { BotConfig, BotStrategy, GameSettings } from "../src/game/types";
+
+const args = process.argv.slice(2);
+const flag = (name: string, fallback: number) => {
+  const hit = args.find((a) => a.startsWith(`--${name}=`));
+  return hit ? Number(hit.split("=")[1]) : fallback;
+};
+
+const strategies: BotConfig[] = args
+  .filter((a) => !a.startsWith("--"))
+  .map((a) => {
+    const [strategy, n] = a.split(":");
+    return { strategy: strategy as BotStrategy, holdAt: Number(n ?? 25) };
+  });
+if (strategies.length < 2) {
+  console.error("Give at least two strategies, e.g. hold_at_20 optimal");
+  process.exit(1);
+}
+
+const ruleSet = args.includes("--official") ? OFFICIAL_1977 : args.includes("--kids") ? KIDS_MODE : DEFAULT_SETTINGS.ruleSet;
+const settings: GameSettings = { ...DEFAULT_SETTINGS, ruleSet, ...ruleSet.variants };
+
+const result = simulate({
+  strategies,
+  games: flag("games", 2000),
+  target: flag("target", 100),
+  settings,
+  seed: flag("seed", 1),
+});
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+console.log(`${result.games} games, ${ruleSet.name}, target ${flag("target", 100)}`);
+console.table(
+  result.seats.map((s) => ({
+    strategy: s.label,
+    "win rate": pct(s.winRate),
+    "pig out / turn": pct(s.pigOutRate),
+    "rolls / turn": s.avgRollsPerTurn.toFixed(2),
+    "points / turn": s.avgPointsPerTurn.toFixed(2),
+    "final score (p10 / median / p90)": `${s.finalScores.p10} / ${s.finalScores.median} / ${s.finalScores.p90}`,
+  }))
+);
+console.log(`Rounds per game: mean ${result.rounds.mean.toFixed(1)}, median ${result.rounds.median}, max ${result.rounds.max}`);
+console.log(`Final Round reached: ${pct(result.finalRoundRate)}; won by someone other than the trigger: ${pct(result.finalRoundComebackRate)}`);
+if (result.unfinished) console.log(`${result.unfinished} games hit the turn cap`);
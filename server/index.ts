@@ -0,0 +1,47 @@
+// Room server for online play. Holds every room in memory; restart it and
+// the rooms are gone.
+//
+//   npm run server                # ws://localhost:8787
+//   PORT=9000 HOST=0.0.0.0 npm run server
+//
+// The browser connects to ws://<page host>:8787 unless the page URL has
+// ?server=ws://somewhere:1234.
+
+import { randomUUID } from "node:crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import { parseClientMessage } from "../src/game/room";
+import type { ServerMessage } from "../src/game/room";
+import { createRoomHost } from "../src/game/roomHost";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const HOST = process.env.HOST ?? "localhost";
+
+const sockets = new Map<string, WebSocket>(); // clientId → socket
+const send = (clientId: string, message: ServerMessage) => sockets.get(clientId)?.send(JSON.stringify(message));
+
+const host = createRoomHost(send, {
+  botDelayMs: 1500, // longer than the roll animation in the browser
+  random: Math.random,
+  randomSeed: () => Math.floor(Math.random() * 2 ** 32),
+  now: Date.now,
+});
+
+const wss = new WebSocketServer({ port: PORT, host: HOST });
+
+wss.on("connection", (socket) => {
+  const clientId = randomUUID();
+  sockets.set(clientId, socket);
+  socket.on("message", (data) => {
+    try {
+      host.handle(clientId, parseClientMessage(data.toString()));
+    } catch (e) {
+      send(clientId, { type: "error", message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+  socket.on("close", () => {
+    host.disconnect(clientId);
+    sockets.delete(clientId);
+  });
+});
+
+wss.on("listening", () => console.log(`Pass the Pigs room server on ws://${HOST}:${PORT}`));
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,94 +7,45 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight, Dice6, Plus, RefreshCcw, Settings, Trophy } from "lucide-react";
+import { AlertTriangle, Bot, BookmarkPlus, ChevronLeft, ChevronRight, Dice6, Plus, Redo2, RefreshCcw, Settings, Trophy, Undo2 } from "lucide-react";
 import confetti from "canvas-confetti";
+import { BotStrategySelect } from "@/components/BotStrategySelect";
+import { CalibrationPanel } from "@/components/CalibrationPanel";
+import { ExportPanel } from "@/components/ExportPanel";
+import { MatchReport } from "@/components/MatchReport";
+import { OddsPanel } from "@/components/OddsPanel";
+import { OnlinePanel } from "@/components/OnlinePanel";
+import { PairWeightsEditor } from "@/components/PairWeightsEditor";
+import { PastGamesPanel } from "@/components/PastGamesPanel";
+import { PigEmoji, ScoreBadge } from "@/components/PigEmoji";
+import { PosePicker } from "@/components/PosePicker";
+import { ProfilesPanel } from "@/components/ProfilesPanel";
+import { ReplayViewer } from "@/components/ReplayViewer";
+import { ScoreHistory } from "@/components/ScoreHistory";
+import { SharedLinkCard } from "@/components/SharedLinkCard";
+import { SimulatorPanel } from "@/components/SimulatorPanel";
+import { WeightsEditor } from "@/components/WeightsEditor";
+import { useOnlineRoom } from "@/lib/online";
+import { ARCHIVE_STORAGE_KEY, GAME_STORAGE_KEY, migrateSavedGame, PROFILES_STORAGE_KEY, useLocalState, WEIGHT_PRESETS_STORAGE_KEY } from "@/lib/storage";
+import { downloadFile, randomSeed } from "@/lib/utils";
+import { scoreRoll } from "@/game/scoring";
+import { doubleValue, RULE_SETS } from "@/game/rules";
+import { applyAction, createInitialState, drawSeededRoll, getWinners, isGameOver, overtimePlayers, redo, undo } from "@/game/engine";
+import { canRedo, canUndo } from "@/game/log";
+import { chooseBotMove, DEFAULT_BOT } from "@/game/bots";
+import { archiveMatch, parseArchive, toArchivedMatch } from "@/game/archive";
+import { mergeMatch } from "@/game/exchange";
+import { parseWeightPresets, saveWeightPreset } from "@/game/presets";
+import { allCommitted } from "@/game/room";
+import { adoptShare, decodeShare, replayShare } from "@/game/share";
+import { createProfile, EMPTY_PROFILE_STORE, matchKey, parseProfileStore, recordMatch } from "@/game/profiles";
+import type { ArchivedMatch, BotConfig, ContactOutcome, GameRules, GameState, LogEntry, OutcomeWeights, PigPose, Player, ProfileStore, RuleSet, WeightPreset } from "@/game/types";
 
 // ---------------------------------------------
 // Pass the Pigs — Single-file React game (TypeScript)
 // Includes a "Final Round" (one-last-turn) rule.
 // ---------------------------------------------
 
-// Types
-export type PigPose =
-  | "Sider-Left"
-  | "Sider-Right"
-  | "Razorback"
-  | "Trotter"
-  | "Snouter"
-  | "Leaning Jowler";
-
-export type DiePig = { pose: PigPose };
-
-export type Roll = {
-  pigs: [DiePig, DiePig];
-  points: number;
-  event: string;
-};
-
-type Player = { id: string; name: string; score: number };
-
-type ScoreEntry = {
-  playerId: string;
-  playerName: string;
-  turnNumber: number;
-  previousScore: number;
-  newScore: number;
-  pointsEarned: number;
-  action: 'hold' | 'pass_pigs';
-  timestamp: number;
-};
-
-type GameState = {
-  started: boolean;
-  target: number;
-  players: Player[];
-  currentIndex: number;
-  turnPoints: number;
-  history: Roll[]; // current-turn history
-  scoreHistory: ScoreEntry[]; // track all score changes over turns
-  currentTurnNumber: number;
-  settings: {
-    weights: Record<PigPose, number>;
-    confettiOnWin: boolean;
-    confettiOnSpecialRolls: boolean;
-    showRollHints: boolean;
-    soundEffects: boolean;
-    showPoseBadges: boolean;
-    fastRollMode: boolean;
-  };
-  // Final-round state
-  finalRound: boolean; // true once someone Holds >= target
-  finalLeaderIndex: number | null; // who triggered final round
-  finalLeaderScore: number; // score to beat
-  finalTurns: Record<string, boolean> | null; // playerId -> took last chance
-  // Pass the pigs state
-  needsToPassPigs: boolean; // true when player needs to click "Pass the Pigs" after getting pigs out
-};
-
-// Scoring values
-const POSE_VALUES: Record<PigPose, number> = {
-  "Sider-Left": 0, // used only in sider/sider logic
-  "Sider-Right": 0,
-  Razorback: 5,
-  Trotter: 5,
-  Snouter: 10,
-  "Leaning Jowler": 15,
-};
-
-// Default outcome weights (rough / arcade-like)
-const DEFAULT_WEIGHTS: Record<PigPose, number> = {
-  "Sider-Left": 34.9,
-  "Sider-Right": 30.2,
-  Razorback: 22.4,
-  Trotter: 8.8,
-  Snouter: 3,
-  "Leaning Jowler": 0.7,
-};
-
-// Local storage key
-const STORAGE_KEY = "pass-the-pigs-v1";
-
 // Sound effects using Web Audio API
 const createSound = (frequency: number, duration: number, type: OscillatorType = 'sine') => {
   const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -161,18 +112,6 @@ const createParticles = (count: number, x: number, y: number, colors: string[])
   return newParticles;
 };
 
-// Helpers
-const randWeighted = (weights: Record<PigPose, number>): PigPose => {
-  const entries = Object.entries(weights) as [PigPose, number][];
-  const total = entries.reduce((a, [, w]) => a + Math.max(0, w), 0);
-  let r = Math.random() * total;
-  for (const [pose, w] of entries) {
-    r -= Math.max(0, w);
-    if (r <= 0) return pose;
-  }
-  return entries[entries.length - 1][0];
-};
-
 // Trigger confetti for special dice combinations
 const triggerConfetti = (pose1: PigPose, pose2: PigPose, enabled: boolean) => {
   if (!enabled) return;
@@ -284,394 +223,11 @@ const triggerConfetti = (pose1: PigPose, pose2: PigPose, enabled: boolean) => {
   }
 };
 
-const poseLabelShort: Record<PigPose, string> = {
-  "Sider-Left": "Sider L",
-  "Sider-Right": "Sider R",
-  Razorback: "Razorback",
-  Trotter: "Trotter",
-  Snouter: "Snouter",
-  "Leaning Jowler": "Jowler",
-};
-
-// Score a pair of pigs according to simplified classic rules
-function scorePair(a: PigPose, b: PigPose): { points: number; event: string } {
-  const isSider = (p: PigPose) => p === "Sider-Left" || p === "Sider-Right";
-
-  // Pig Out: opposite siders
-  if (
-    (a === "Sider-Left" && b === "Sider-Right") ||
-    (a === "Sider-Right" && b === "Sider-Left")
-  ) {
-    return { points: 0, event: "Pig Out — turn ends" };
-  }
-
-  // Sider + Sider (same side) → 1 point
-  if (
-    (a === "Sider-Left" && b === "Sider-Left") ||
-    (a === "Sider-Right" && b === "Sider-Right")
-  ) {
-    return { points: 1, event: "Sider (same sides)" };
-  }
-
-  // If exactly one is a sider → score the other pose's value
-  if (isSider(a) && !isSider(b)) return { points: POSE_VALUES[b], event: `${b} (+${POSE_VALUES[b]})` };
-  if (!isSider(a) && isSider(b)) return { points: POSE_VALUES[a], event: `${a} (+${POSE_VALUES[a]})` };
-
-  // Both are non-siders
-  if (a === b) {
-    const base = POSE_VALUES[a] + POSE_VALUES[b];
-    return { points: base * 2, event: `Double ${a} (+${base * 2})` };
-  }
-  const sum = POSE_VALUES[a] + POSE_VALUES[b];
-  return { points: sum, event: `${a} + ${b} (+${sum})` };
-}
-
-// Persisted state hook with migration support
-function useLocalState<T>(key: string, initial: T) {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      if (!raw) return initial;
-      
-      const parsed = JSON.parse(raw) as any;
-      
-      // Migration logic for existing saved games
-      if (parsed && typeof parsed === 'object') {
-        // Add missing scoreHistory field if it doesn't exist
-        if (!parsed.scoreHistory) {
-          parsed.scoreHistory = [];
-        }
-        // Add missing currentTurnNumber field if it doesn't exist
-        if (typeof parsed.currentTurnNumber !== 'number') {
-          parsed.currentTurnNumber = 1;
-        }
-        // Add missing fastRollMode field if it doesn't exist
-        if (parsed.settings && typeof parsed.settings.fastRollMode !== 'boolean') {
-          parsed.settings.fastRollMode = false;
-        }
-      }
-      
-      return parsed as T;
-    } catch {
-      return initial;
-    }
-  });
-  useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(value));
-    } catch {}
-  }, [key, value]);
-  return [value, setValue] as const;
-}
-
-const PigEmoji: React.FC<{ pose: PigPose; i: number; rolling?: boolean; anticipating?: boolean; showBadge?: boolean; fastRollMode?: boolean }> = ({ pose, i, rolling, anticipating, showBadge = false, fastRollMode = false }) => {
-  const previousPoseRef = useRef(pose);
-  
-  // Update previous pose when not rolling
-  if (!rolling && !anticipating) {
-    previousPoseRef.current = pose;
-  }
-
-  const variants: Record<PigPose, { rotate: number; y: number; x: number; scale?: number }> = {
-    "Sider-Left": { rotate: -90, y: 8, x: -10 },
-    "Sider-Right": { rotate: 90, y: 8, x: 10 },
-    Razorback: { rotate: -180, y: 16, x: 0, scale: 1.05 }, // Pig on its back
-    Trotter: { rotate: 0, y: -20, x: 0, scale: 1.05 }, // Pig on front legs
-    Snouter: { rotate: -45, y: -6, x: 6, scale: 1.05 }, // Pig on snout
-    "Leaning Jowler": { rotate: 45, y: -2, x: 12, scale: 1.1 }, // Pig leaning on ear
-  };
-
-  // Color schemes for each pose
-  const poseColors: Record<PigPose, { bg: string; border: string; indicator: string }> = {
-    "Sider-Left": { bg: "bg-gray-100", border: "border-gray-300", indicator: "bg-gray-500" },
-    "Sider-Right": { bg: "bg-gray-100", border: "border-gray-300", indicator: "bg-gray-500" },
-    Razorback: { bg: "bg-red-100", border: "border-red-300", indicator: "bg-red-500" },
-    Trotter: { bg: "bg-green-100", border: "border-green-300", indicator: "bg-green-500" },
-    Snouter: { bg: "bg-purple-100", border: "border-purple-300", indicator: "bg-purple-500" },
-    "Leaning Jowler": { bg: "bg-orange-100", border: "border-orange-300", indicator: "bg-orange-500" },
-  };
-
-  // Pose-specific indicators
-  const poseIndicators: Record<PigPose, string> = {
-    "Sider-Left": "◀",
-    "Sider-Right": "▶", 
-    Razorback: "▼",
-    Trotter: "▲",
-    Snouter: "◆",
-    "Leaning Jowler": "★",
-  };
-
-  const currentV = variants[pose];
-  const previousV = variants[previousPoseRef.current];
-  const colors = poseColors[pose];
-  const indicator = poseIndicators[pose];
-
-  return (
-    <motion.div
-      className="relative text-6xl select-none"
-      initial={{ y: -60, rotate: (i ? -1 : 1) * 45, opacity: 0.2 }}
-      animate={rolling ? { 
-        y: [0, 0, 0, 0, -35, 20, -15, 10, -5, currentV.y], 
-        rotate: [0, 0, 0, 0, 90, -45, 135, -30, 45, currentV.rotate], 
-        scale: [1, 1, 1, 1, 1.1, 0.9, 1.05, 0.95, 1.02, currentV.scale || 1],
-        x: [0, 0, 0, 0, i ? 8 : -8, i ? -6 : 6, i ? 5 : -5, i ? -3 : 3, i ? 2 : -2, currentV.x],
-        opacity: [1, 1, 1, 1, 0.8, 0.2, 0.8, 0.9, 0.95, 1],
-        filter: [
-          "drop-shadow(0 0 0 rgba(0,0,0,0))", 
-          "drop-shadow(0 0 0 rgba(0,0,0,0))",
-          "drop-shadow(0 0 0 rgba(0,0,0,0))",
-          "drop-shadow(0 0 0 rgba(0,0,0,0))",
-          "drop-shadow(0 4px 8px rgba(0,0,0,0.3))", 
-          "drop-shadow(0 2px 4px rgba(0,0,0,0.2))",
-          "drop-shadow(0 1px 2px rgba(0,0,0,0.1))",
-          "drop-shadow(0 0 0 rgba(0,0,0,0))"
-        ],
-        skewX: [0, 0, 0, 0, 2, -2, 1, -1, 0.5, 0],
-        skewY: [0, 0, 0, 0, 1, -1, 0.5, -0.5, 0, 0]
-      } : anticipating ? {
-        y: [previousV.y, 0, -5, 0],
-        rotate: [previousV.rotate, 0, 3, -3, 0],
-        scale: [previousV.scale || 1, 1, 1.05, 1],
-        x: [previousV.x, 0, i ? 2 : -2, 0],
-        opacity: 1
-      } : { ...currentV, opacity: 1 }}
-      layout={false}
-      transition={{ 
-        duration: rolling ? (fastRollMode ? 0.9 : 1.8) : anticipating ? (fastRollMode ? 0.15 : 0.3) : 0.35, 
-        ease: rolling ? [0.25, 0.1, 0.25, 1] : anticipating ? "easeInOut" : "easeOut",
-        times: rolling ? [0, 0.08, 0.15, 0.25, 0.4, 0.6, 0.8, 0.92, 0.98, 1] : undefined,
-        repeat: anticipating ? Infinity : undefined,
-        repeatType: anticipating ? "reverse" : undefined
-      }}
-      whileHover={rolling || anticipating ? {} : { scale: 1.05, transition: { duration: 0.1 } }}
-    >
-      {/* Pose indicator badge - only show when not rolling and showBadge is true */}
-      {!rolling && showBadge && (
-        <div 
-          className={`absolute w-4 h-4 rounded-full ${colors.indicator} bg-opacity-70 text-white text-[8px] flex items-center justify-center font-medium z-10`}
-          style={{
-            top: '-8px',
-            left: '50%',
-            transform: 'translateX(-50%)',
-          }}
-        >
-          {indicator}
-        </div>
-      )}
-      
-      {/* Main pig emoji with enhanced rolling animation */}
-      <motion.div 
-        className="relative"
-        animate={rolling ? {
-          y: [0, -3, 0],
-          rotate: [0, 5, -5, 0],
-          scale: [1, 1.02, 0.98, 1]
-        } : {}}
-        transition={rolling ? {
-          duration: 0.4,
-          ease: "easeInOut",
-          repeat: 3,
-          repeatType: "reverse"
-        } : {}}
-      >
-        🐖
-      </motion.div>
-      
-      {/* Rolling trail effect */}
-      {rolling && (
-        <motion.div
-          className="absolute inset-0 text-6xl opacity-15"
-          animate={{
-            y: [0, -15, 0],
-            rotate: [0, 180],
-            scale: [1, 0.9, 1]
-          }}
-                  transition={{
-          duration: fastRollMode ? 0.45 : 0.9,
-          ease: "easeInOut",
-          repeat: 2,
-          repeatType: "reverse"
-        }}
-        >
-          🐖
-        </motion.div>
-      )}
-    </motion.div>
-  );
-};
-
-const ScoreBadge: React.FC<{ pose: PigPose }> = ({ pose }) => {
-  // Color schemes for each pose (matching the pig colors)
-  const poseColors: Record<PigPose, { bg: string; text: string; border: string }> = {
-    "Sider-Left": { bg: "bg-gray-100", text: "text-gray-700", border: "border-gray-300" },
-    "Sider-Right": { bg: "bg-gray-100", text: "text-gray-700", border: "border-gray-300" },
-    Razorback: { bg: "bg-red-100", text: "text-red-700", border: "border-red-300" },
-    Trotter: { bg: "bg-green-100", text: "text-green-700", border: "border-green-300" },
-    Snouter: { bg: "bg-purple-100", text: "text-purple-700", border: "border-purple-300" },
-    "Leaning Jowler": { bg: "bg-orange-100", text: "text-orange-700", border: "border-orange-300" },
-  };
-
-  // Pose-specific icons
-  const poseIcons: Record<PigPose, string> = {
-    "Sider-Left": "◀",
-    "Sider-Right": "▶",
-    Razorback: "▼",
-    Trotter: "▲",
-    Snouter: "◆",
-    "Leaning Jowler": "★",
-  };
-
-  const colors = poseColors[pose];
-  const icon = poseIcons[pose];
-
-  return (
-    <Badge 
-      variant="secondary" 
-      className={`font-mono border ${colors.bg} ${colors.text} ${colors.border} flex items-center gap-1`}
-    >
-      <span className="text-xs">{icon}</span>
-      {poseLabelShort[pose]}
-    </Badge>
-  );
-};
-
-// --------------------- INTERNAL TESTS ----------------------
-function runInternalTests() {
-  // Scoring sanity checks
-  console.assert(scorePair("Sider-Left", "Sider-Right").points === 0, "Pig Out should be 0");
-  console.assert(scorePair("Sider-Left", "Sider-Left").points === 1, "Same sider should be 1");
-  console.assert(scorePair("Trotter", "Sider-Left").points === 5, "Single + sider should use special value");
-  console.assert(scorePair("Snouter", "Snouter").points === 40, "Double Snouter should be 40");
-  console.assert(scorePair("Razorback", "Trotter").points === 10, "Two specials should sum");
-}
-
-// ScoreHistory component to display player scores over turns/rounds
-const ScoreHistory: React.FC<{ scoreHistory: ScoreEntry[]; players: Player[] }> = ({ scoreHistory, players }) => {
-  if (!scoreHistory || scoreHistory.length === 0) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Trophy className="h-5 w-5" />
-            Score History
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center text-muted-foreground py-8">
-            <Trophy className="h-12 w-12 mx-auto mb-3 opacity-30" />
-            <p>No score changes yet. Start playing to see the history!</p>
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
-
-  // Group score entries by turn number with safety checks
-  const turnsByNumber = (scoreHistory || []).reduce((acc, entry) => {
-    // Safety check: ensure entry is valid and has required properties
-    if (!entry || typeof entry.turnNumber !== 'number' || !entry.playerId) {
-      return acc;
-    }
-    
-    if (!acc[entry.turnNumber]) {
-      acc[entry.turnNumber] = [];
-    }
-    acc[entry.turnNumber].push(entry);
-    return acc;
-  }, {} as Record<number, ScoreEntry[]>);
-
-  const turnNumbers = Object.keys(turnsByNumber).map(Number).sort((a, b) => b - a); // Most recent first
-
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Trophy className="h-5 w-5" />
-          Score History
-                     <Badge variant="secondary" className="ml-2">
-             {scoreHistory?.length || 0} change{(scoreHistory?.length || 0) === 1 ? '' : 's'}
-           </Badge>
-        </CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="max-h-96 overflow-auto space-y-4">
-          {turnNumbers.map((turnNumber) => {
-            const turnEntries = turnsByNumber[turnNumber];
-            const turnStartTime = Math.min(...turnEntries.map(e => e.timestamp));
-            const turnEndTime = Math.max(...turnEntries.map(e => e.timestamp));
-            
-            return (
-              <div key={turnNumber} className="border rounded-lg p-3 bg-amber-50/30">
-                <div className="flex items-center justify-between mb-3">
-                  <div className="flex items-center gap-2">
-                    <Badge variant="outline" className="font-mono">
-                      Turn {turnNumber}
-                    </Badge>
-                    <span className="text-xs text-muted-foreground">
-                      {new Date(turnStartTime).toLocaleTimeString()}
-                    </span>
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    {turnEntries.length} action{turnEntries.length === 1 ? '' : 's'}
-                  </div>
-                </div>
-                
-                <div className="space-y-2">
-                  {turnEntries
-                    .filter(entry => entry && entry.playerId && typeof entry.pointsEarned === 'number') // Safety filter
-                    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
-                    .map((entry, idx) => {
-                      const player = players.find(p => p.id === entry.playerId);
-                      const isPositive = entry.pointsEarned > 0;
-                      const isZero = entry.pointsEarned === 0;
-                      
-                      return (
-                        <div key={`${entry.playerId}-${entry.timestamp}`} className="flex items-center justify-between bg-white rounded-lg p-2 border">
-                          <div className="flex items-center gap-3">
-                            <div className="w-8 h-8 rounded-full bg-gradient-to-br from-amber-100 to-amber-200 flex items-center justify-center text-xs font-bold">
-                              {players.findIndex(p => p.id === entry.playerId) + 1}
-                            </div>
-                            <div>
-                              <div className="font-medium text-sm">{entry.playerName}</div>
-                              <div className="text-xs text-muted-foreground">
-                                {entry.action === 'hold' ? 'Held points' : 'Passed pigs'}
-                              </div>
-                            </div>
-                          </div>
-                          
-                          <div className="text-right">
-                            <div className={`font-bold text-sm ${
-                              isPositive ? 'text-green-600' : 
-                              isZero ? 'text-gray-500' : 
-                              'text-red-600'
-                            }`}>
-                              {isPositive ? `+${entry.pointsEarned}` : 
-                               isZero ? '0' : 
-                               entry.pointsEarned}
-                            </div>
-                            <div className="text-xs text-muted-foreground">
-                              {entry.previousScore} → {entry.newScore}
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                </div>
-              </div>
-            );
-          })}
-        </div>
-        
-                 {(scoreHistory?.length || 0) > 0 && (
-           <div className="mt-4 pt-3 border-t">
-             <div className="text-xs text-muted-foreground text-center">
-               Showing {scoreHistory?.length || 0} score change{(scoreHistory?.length || 0) === 1 ? '' : 's'} across {turnNumbers.length} turn{turnNumbers.length === 1 ? '' : 's'}
-             </div>
-           </div>
-         )}
-      </CardContent>
-    </Card>
-  );
+// Pause before each computer move, per Settings → Computer speed
+const BOT_DELAYS: Record<GameState["settings"]["botSpeed"], number> = {
+  slow: 1500,
+  normal: 800,
+  fast: 250,
 };
 
 // --------------------- COMPONENT ----------------------
@@ -681,40 +237,20 @@ export default function App() {
     { id: crypto.randomUUID(), name: "Player 2", score: 0 },
   ];
 
-  const defaultState: GameState = {
-    started: false,
-    target: 100,
-    players: defaultPlayers,
-    currentIndex: 0,
-    turnPoints: 0,
-    history: [],
-    scoreHistory: [],
-    currentTurnNumber: 1,
-    settings: {
-      weights: { ...DEFAULT_WEIGHTS },
-      confettiOnWin: true,
-      confettiOnSpecialRolls: true,
-      showRollHints: true,
-      soundEffects: true,
-      showPoseBadges: false,
-      fastRollMode: false,
-    },
-    finalRound: false,
-    finalLeaderIndex: null,
-    finalLeaderScore: 0,
-    finalTurns: null,
-    needsToPassPigs: false,
-  };
+  const defaultState: GameState = createInitialState(defaultPlayers, 100, undefined, randomSeed());
 
-  const [state, setState] = useLocalState<GameState>(STORAGE_KEY, defaultState);
+  const [savedState, setState, loadFailure, dismissLoadFailure] = useLocalState<GameState>(GAME_STORAGE_KEY, defaultState, migrateSavedGame);
+  // In an online room the server's game replaces the one saved on this device
+  const online = useOnlineRoom();
+  const state = online.room?.state ?? savedState;
+  const inRoom = Boolean(online.room);
+  const [profileStore, setProfileStore] = useLocalState<ProfileStore>(PROFILES_STORAGE_KEY, EMPTY_PROFILE_STORE, parseProfileStore);
+  const [archive, setArchive] = useLocalState<ArchivedMatch[]>(ARCHIVE_STORAGE_KEY, [], parseArchive);
+  const [weightPresets, setWeightPresets] = useLocalState<WeightPreset[]>(WEIGHT_PRESETS_STORAGE_KEY, [], parseWeightPresets);
   const [rolling, setRolling] = useState(false);
   const [anticipating, setAnticipating] = useState(false);
   const [particles, setParticles] = useState<Array<{ id: number; x: number; y: number; vx: number; vy: number; life: number; color: string }>>([]);
 
-  useEffect(() => {
-    runInternalTests();
-  }, []);
-
   // Particle animation effect
   useEffect(() => {
     if (particles.length === 0) return;
@@ -736,36 +272,43 @@ export default function App() {
     return () => clearInterval(interval);
   }, [particles.length]);
 
-  const finalDone = Boolean(
-    state.finalRound && state.finalTurns && Object.values(state.finalTurns).every(Boolean)
-  );
-
-  const winner = finalDone
-    ? state.players.reduce<Player | null>((best, p) => (!best || p.score > best.score ? p : best), null)
-    : null;
-
-  const startGame = () => setState((s) => ({ ...s, started: true }));
+  const gameOver = isGameOver(state);
+  const winners = getWinners(state);
+  const tiedPlayers = overtimePlayers(state);
+  const current = state.players[state.currentIndex];
+  const botTurn = Boolean(state.started && current?.bot && !gameOver);
+  const otherTurn = Boolean(inRoom && state.started && !gameOver && !botTurn && online.mySeat !== current?.id);
+  const fairRound = online.room?.fairRound ?? null; // a fair dice roll is under way
+  const locked = botTurn || otherTurn || Boolean(fairRound);
+  const keepingScore = state.settings.scoreKeeper && !inRoom && !botTurn; // real pigs; computer players still roll their own
+
+  const startGame = () => {
+    if (inRoom) online.move("start");
+    else setState((s) => applyAction(s, { type: "start" }));
+  };
 
   const resetGame = (hard = false) => {
-    setState((s) => ({
-      ...defaultState,
-      players: hard
-        ? [
-            { id: crypto.randomUUID(), name: "Player 1", score: 0 },
-            { id: crypto.randomUUID(), name: "Player 2", score: 0 },
-          ]
-        : s.players.map((p) => ({ ...p, score: 0 })),
-      target: s.target,
-      settings: s.settings,
-      started: false,
-      needsToPassPigs: false,
-      scoreHistory: [],
-      currentTurnNumber: 1,
-    }));
+    setState((s) =>
+      createInitialState(
+        hard
+          ? [
+              { id: crypto.randomUUID(), name: "Player 1", score: 0 },
+              { id: crypto.randomUUID(), name: "Player 2", score: 0 },
+            ]
+          : s.players.map((p) => ({ id: p.id, name: p.name, score: 0, ...(p.profileId ? { profileId: p.profileId } : {}) })),
+        s.target,
+        s.settings,
+        hard ? randomSeed() : s.seed // Reset Scores replays the same seed
+      )
+    );
   };
 
   const roll = async () => {
-    if (rolling || winner) return;
+    if (rolling || gameOver) return;
+    if (inRoom) {
+      online.move("roll"); // the tumble plays when the server's roll comes back
+      return;
+    }
     
     // Start anticipation phase
     setAnticipating(true);
@@ -785,9 +328,26 @@ export default function App() {
     const rollingDelay = state.settings.fastRollMode ? 600 : 1200;
     await new Promise((r) => setTimeout(r, rollingDelay));
     
-    const a = randWeighted(state.settings.weights);
-    const b = randWeighted(state.settings.weights);
-    const { points, event } = scorePair(a, b);
+    const action = drawSeededRoll(state);
+    const { pigs: [a, b], contact } = action;
+
+    celebrateRoll(a, b, contact);
+
+    setState((s) => applyAction(s, action));
+
+    setRolling(false);
+  };
+
+  // Score-keeper mode: the real pigs already landed, so there is nothing to tumble
+  const enterRoll = (pigs: [PigPose, PigPose], contact?: ContactOutcome) => {
+    if (rolling || gameOver) return;
+    celebrateRoll(pigs[0], pigs[1], contact);
+    setState((s) => applyAction(s, contact ? { type: "roll", pigs, contact, entered: true } : { type: "roll", pigs, entered: true }));
+  };
+
+  // Sounds, particles and confetti for pigs that just landed
+  const celebrateRoll = (a: PigPose, b: PigPose, contact?: ContactOutcome) => {
+    const { points, endsTurn } = scoreRoll(a, b, contact, state.settings.ruleSet);
 
     // Play landing sound
     if (state.settings.soundEffects) {
@@ -795,8 +355,8 @@ export default function App() {
     }
 
     // Play special sounds and trigger confetti for special combinations
-    const pigOut = event.startsWith("Pig Out");
-    const isSpecial = points > 5 || (a === b && a !== "Sider-Left" && a !== "Sider-Right");
+    const pigOut = endsTurn;
+    const isSpecial = !contact && (points > 5 || (a === b && a !== "Sider-Left" && a !== "Sider-Right"));
     
     if (state.settings.soundEffects) {
       if (pigOut) {
@@ -815,167 +375,194 @@ export default function App() {
       setParticles(prev => [...prev, ...newParticles]);
     }
 
-    triggerConfetti(a, b, state.settings.confettiOnSpecialRolls);
-
-    setState((s) => {
-      const newHistory: Roll[] = [
-        ...s.history,
-        { pigs: [{ pose: a }, { pose: b }] as [DiePig, DiePig], points, event },
-      ];
-      if (!pigOut) {
-        return { ...s, history: newHistory, turnPoints: s.turnPoints + points };
-      }
-      // Pig Out - player needs to click "Pass the Pigs" to continue
-      return {
-        ...s,
-        history: newHistory,
-        needsToPassPigs: true,
-      };
-    });
-
-    setRolling(false);
+    triggerConfetti(a, b, state.settings.confettiOnSpecialRolls && !contact);
   };
 
   const passThePigs = () => {
-    if (rolling || winner || !state.needsToPassPigs) return;
-    setState((s) => {
-      // End the turn and move to next player
-      const curId = s.players[s.currentIndex].id;
-      const currentPlayer = s.players[s.currentIndex];
-      const nextIndex = (s.currentIndex + 1) % s.players.length;
-      let finalTurns = s.finalTurns ? { ...s.finalTurns } : null;
-      if (s.finalRound && finalTurns) {
-        finalTurns[curId] = true; // used their last chance
-      }
-      
-      // Record score change (0 points earned from passing pigs)
-      const scoreEntry: ScoreEntry = {
-        playerId: curId,
-        playerName: currentPlayer.name,
-        turnNumber: s.currentTurnNumber,
-        previousScore: currentPlayer.score,
-        newScore: currentPlayer.score, // No change in score
-        pointsEarned: 0,
-        action: 'pass_pigs',
-        timestamp: Date.now(),
-      };
-      
-      return {
-        ...s,
-        history: [],
-        turnPoints: 0,
-        currentIndex: nextIndex,
-        finalTurns,
-        needsToPassPigs: false,
-        scoreHistory: [...s.scoreHistory, scoreEntry],
-        currentTurnNumber: nextIndex === 0 ? s.currentTurnNumber + 1 : s.currentTurnNumber,
-      };
-    });
+    if (rolling || gameOver || !state.needsToPassPigs) return;
+    if (inRoom) online.move("pass_pigs");
+    else setState((s) => applyAction(s, { type: "pass_pigs", timestamp: Date.now() }));
   };
 
   const hold = () => {
-    if (rolling || winner) return;
-    setState((s) => {
-      // Bank points
-      const players = s.players.map((p, i) =>
-        i === s.currentIndex ? { ...p, score: p.score + s.turnPoints } : p
-      );
-      const me = players[s.currentIndex];
-      const newScore = me.score;
-      const previousScore = s.players[s.currentIndex].score;
-      const pointsEarned = s.turnPoints;
-
-      // Record score change
-      const scoreEntry: ScoreEntry = {
-        playerId: me.id,
-        playerName: me.name,
-        turnNumber: s.currentTurnNumber,
-        previousScore,
-        newScore,
-        pointsEarned,
-        action: 'hold',
-        timestamp: Date.now(),
-      };
-
-      // If not yet in final round and player reached target, trigger final round
-      if (!s.finalRound && newScore >= s.target) {
-        const turns: Record<string, boolean> = {};
-        for (const p of players) turns[p.id] = false;
-        turns[me.id] = true; // the triggering player does not get another chance
-        const nextIndex = (s.currentIndex + 1) % players.length;
-        return {
-          ...s,
-          players,
-          turnPoints: 0,
-          history: [],
-          currentIndex: nextIndex,
-          finalRound: true,
-          finalLeaderIndex: s.currentIndex,
-          finalLeaderScore: newScore,
-          finalTurns: turns,
-          needsToPassPigs: false,
-          scoreHistory: [...s.scoreHistory, scoreEntry],
-          currentTurnNumber: nextIndex === 0 ? s.currentTurnNumber + 1 : s.currentTurnNumber,
-        };
-      }
+    if (rolling || gameOver) return;
+    if (inRoom) online.move("hold");
+    else setState((s) => applyAction(s, { type: "hold", timestamp: Date.now() }));
+  };
 
-      // Already in final round: bank, mark this player's final turn as used
-      if (s.finalRound && s.finalTurns) {
-        const turns = { ...s.finalTurns };
-        turns[me.id] = true;
-        const nextIndex = (s.currentIndex + 1) % players.length;
-        return {
-          ...s,
-          players,
-          turnPoints: 0,
-          history: [],
-          currentIndex: nextIndex,
-          finalTurns: turns,
-          finalLeaderScore: Math.max(s.finalLeaderScore, newScore),
-          needsToPassPigs: false,
-          scoreHistory: [...s.scoreHistory, scoreEntry],
-          currentTurnNumber: nextIndex === 0 ? s.currentTurnNumber + 1 : s.currentTurnNumber,
-        };
-      }
+  // Online, rolls come back from the room server: tumble the pigs on every
+  // screen, then land them
+  const onlineLog = online.room?.state.log;
+  const seenLogLength = useRef<number | null>(null);
+  useLayoutEffect(() => {
+    const seen = seenLogLength.current;
+    seenLogLength.current = onlineLog?.length ?? null;
+    const entry = onlineLog?.[onlineLog.length - 1];
+    if (!onlineLog || seen === null || onlineLog.length <= seen || entry?.type !== "roll") return;
+    setRolling(true);
+    if (state.settings.soundEffects) playRollSound();
+    const timer = setTimeout(() => {
+      celebrateRoll(entry.pigs[0], entry.pigs[1], entry.contact);
+      setRolling(false);
+    }, state.settings.fastRollMode ? 600 : 1200);
+    return () => {
+      clearTimeout(timer);
+      setRolling(false);
+    };
+  }, [onlineLog]);
 
-      // Normal hold (no final round yet and below target)
-      return {
-        ...s,
-        players,
-        turnPoints: 0,
-        history: [],
-        currentIndex: (s.currentIndex + 1) % s.players.length,
-        needsToPassPigs: false,
-        scoreHistory: [...s.scoreHistory, scoreEntry],
-        currentTurnNumber: ((s.currentIndex + 1) % s.players.length) === 0 ? s.currentTurnNumber + 1 : s.currentTurnNumber,
-      };
-    });
-  };
+  // Computer players press the same buttons, after a short pause (online,
+  // the server moves them)
+  useEffect(() => {
+    const bot = current?.bot;
+    if (inRoom || !state.started || gameOver || rolling || anticipating || !bot) return;
+    const timer = setTimeout(() => {
+      const move = chooseBotMove(state, bot);
+      if (move === "pass_pigs") passThePigs();
+      else if (move === "hold") hold();
+      else roll();
+    }, BOT_DELAYS[state.settings.botSpeed]);
+    return () => clearTimeout(timer);
+  }, [state, rolling, anticipating, gameOver]);
 
   const addPlayer = () => {
-    setState((s) => ({
-      ...s,
-      players: [...s.players, { id: crypto.randomUUID(), name: `Player ${s.players.length + 1}`, score: 0 }],
+    setState((s) => applyAction(s, {
+      type: "add_player",
+      player: { id: crypto.randomUUID(), name: `Player ${s.players.length + 1}`, score: 0 },
     }));
   };
 
-  const removePlayer = (id: string) => {
-    setState((s) => ({
-      ...s,
-      players: s.players.filter((p) => p.id !== id),
-      currentIndex: 0,
+  const setBot = (id: string, bot: BotConfig | null) => {
+    setState((s) => applyAction(s, { type: "set_bot", playerId: id, bot }));
+  };
+
+  // Count a finished game towards the seated profiles and keep it in the
+  // Past Games archive (each once per match)
+  useEffect(() => {
+    if (!gameOver) return;
+    setProfileStore((store) => recordMatch(store, state));
+    setArchive((matches) => archiveMatch(matches, state, Date.now()));
+  }, [gameOver, state]);
+
+  const profileName = (id: string) => profileStore.profiles.find((pr) => pr.id === id)?.name;
+  const unseatedProfiles = profileStore.profiles.filter((pr) => !state.players.some((p) => p.profileId === pr.id));
+
+  const addProfilePlayer = (profileId: string) => {
+    const profile = profileStore.profiles.find((pr) => pr.id === profileId);
+    if (!profile) return;
+    setState((s) => applyAction(s, {
+      type: "add_player",
+      player: { id: crypto.randomUUID(), name: profile.name, score: 0, profileId: profile.id },
     }));
   };
 
-  const updateWeight = (pose: PigPose, val: number) => {
-    setState((s) => ({ ...s, settings: { ...s.settings, weights: { ...s.settings.weights, [pose]: val } } }));
+  // Start a profile from a seated player and link them to it
+  const saveProfile = (player: Player) => {
+    const profile = createProfile(crypto.randomUUID(), player.name, Date.now());
+    setProfileStore((store) => ({ ...store, profiles: [...store.profiles, profile] }));
+    setState((s) => applyAction(s, { type: "set_profile", playerId: player.id, profileId: profile.id }));
   };
 
-  const resetWeightsToDefault = () => {
-    setState((s) => ({ ...s, settings: { ...s.settings, weights: { ...DEFAULT_WEIGHTS } } }));
+  const renameProfile = (id: string, name: string) => {
+    setProfileStore((store) => ({ ...store, profiles: store.profiles.map((pr) => (pr.id === id ? { ...pr, name } : pr)) }));
   };
 
-  const current = state.players[state.currentIndex];
+  const deleteProfile = (id: string) => {
+    setProfileStore((store) => ({ ...store, profiles: store.profiles.filter((pr) => pr.id !== id) }));
+    for (const p of state.players) {
+      if (p.profileId === id) setState((s) => applyAction(s, { type: "set_profile", playerId: p.id, profileId: null }));
+    }
+  };
+
+  const removePlayer = (id: string) => {
+    setState((s) => applyAction(s, { type: "remove_player", playerId: id }));
+  };
+
+  const undoLast = () => {
+    if (rolling || anticipating) return;
+    setState((s) => undo(s));
+  };
+
+  const redoLast = () => {
+    if (rolling || anticipating) return;
+    setState((s) => redo(s));
+  };
+
+  const updateSeed = (seed: number) => {
+    setState((s) => applyAction(s, { type: "set_seed", seed }));
+  };
+
+  // Game-rule settings go through the log so undo and replays keep them in step
+  const setRules = (rules: Partial<GameRules>) => {
+    setState((s) => applyAction(s, { type: "set_rules", rules }));
+  };
+
+  const selectRuleSet = (ruleSet: RuleSet) => {
+    setRules({ ruleSet, ...ruleSet.variants });
+  };
+
+  const applyWeights = (weights: OutcomeWeights) => {
+    setRules({ weights: { ...weights } });
+  };
+
+  // Keep a weight table under a name and play with it right away
+  const saveWeights = (name: string, weights: OutcomeWeights) => {
+    setWeightPresets((presets) => saveWeightPreset(presets, { id: crypto.randomUUID(), name, weights, createdAt: Date.now() }));
+    applyWeights(weights);
+  };
+
+  const rules = state.settings.ruleSet;
+  const specialPoses: PigPose[] = ["Razorback", "Trotter", "Snouter", "Leaning Jowler"];
+  const lastRoll = state.history[state.history.length - 1];
+
+  // Share links arrive in the URL hash, on load or pasted into this tab
+  const readSharedLink = () => {
+    try {
+      const share = decodeShare(window.location.hash);
+      return share ? { share, error: null } : null;
+    } catch (e) {
+      return { share: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  };
+  const [sharedLink, setSharedLink] = useState(readSharedLink);
+  const [sharedReplay, setSharedReplay] = useState<ArchivedMatch | null>(null);
+  const [replaying, setReplaying] = useState<{ log: LogEntry[]; title: string } | null>(null);
+
+  const watchReplay = (log: LogEntry[], title: string) => {
+    setReplaying({ log, title });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  useEffect(() => {
+    const onHashChange = () => setSharedLink(readSharedLink());
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  const closeSharedLink = () => {
+    setSharedLink(null);
+    history.replaceState(null, "", window.location.pathname + window.location.search);
+  };
+
+  const adoptSharedSetup = () => {
+    const share = sharedLink?.share;
+    if (!share) return;
+    if (state.started && !gameOver && !confirm("Replace the game in progress with the shared setup?")) return;
+    setState((s) => adoptShare(share, s.settings, randomSeed(), () => crypto.randomUUID()));
+    closeSharedLink();
+  };
+
+  const openSharedReplay = () => {
+    const share = sharedLink?.share;
+    if (!share) return;
+    const replay = replayShare(share, state.settings);
+    setSharedReplay(toArchivedMatch(replay, matchKey(replay) ?? `shared:${share.seed}`, share.startedAt || Date.now()));
+    closeSharedLink();
+  };
+
+  const downloadBackup = () => {
+    if (loadFailure) downloadFile("pass-the-pigs-save-backup.json", loadFailure.raw);
+  };
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-amber-50 to-rose-50 p-6">
@@ -987,159 +574,335 @@ export default function App() {
             <Badge variant="outline">Web Edition</Badge>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="secondary" size="sm" onClick={() => resetGame(false)}>
+            <Button variant="outline" size="sm" onClick={undoLast} disabled={rolling || anticipating || !canUndo(state.log) || inRoom}>
+              <Undo2 className="mr-2 h-4 w-4" /> Undo
+            </Button>
+            <Button variant="outline" size="sm" onClick={redoLast} disabled={rolling || anticipating || !canRedo(state.log) || inRoom}>
+              <Redo2 className="mr-2 h-4 w-4" /> Redo
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => resetGame(false)} disabled={inRoom}>
               <RefreshCcw className="mr-2 h-4 w-4" /> Reset Scores
             </Button>
-            <Button variant="ghost" size="sm" onClick={() => resetGame(true)}>
+            <Button variant="ghost" size="sm" onClick={() => resetGame(true)} disabled={inRoom}>
               New Match
             </Button>
           </div>
         </header>
 
+        {sharedLink && (
+          <SharedLinkCard
+            share={sharedLink.share}
+            error={sharedLink.error}
+            onAdopt={adoptSharedSetup}
+            onReplay={openSharedReplay}
+            onDismiss={closeSharedLink}
+          />
+        )}
+
+        {sharedReplay && (
+          <Card className="mb-4 border-sky-300">
+            <CardHeader>
+              <CardTitle>Shared game (read-only)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MatchReport match={sharedReplay} />
+            </CardContent>
+            <CardFooter className="flex gap-3">
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setArchive((matches) => mergeMatch(matches, sharedReplay));
+                  setSharedReplay(null);
+                }}
+              >
+                Save to Past Games
+              </Button>
+              <Button variant="outline" onClick={() => watchReplay(sharedReplay.log, "shared game")}>Watch replay</Button>
+              <Button variant="ghost" onClick={() => setSharedReplay(null)}>Close</Button>
+            </CardFooter>
+          </Card>
+        )}
+
+        {replaying && (
+          <ReplayViewer
+            key={replaying.log.length + replaying.title}
+            log={replaying.log}
+            title={replaying.title}
+            showBadges={state.settings.showPoseBadges}
+            onClose={() => setReplaying(null)}
+          />
+        )}
+
+        {loadFailure && (
+          <Card className="mb-4 border-rose-300 bg-rose-50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><AlertTriangle className="h-5 w-5" /> Your saved game could not be loaded</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p>A fresh game was started instead. The old save was not deleted{loadFailure.backupKey ? <> and is kept in local storage as <code>{loadFailure.backupKey}</code></> : null}.</p>
+              <p className="opacity-70">Reason: {loadFailure.reason}</p>
+            </CardContent>
+            <CardFooter className="flex gap-3">
+              <Button variant="secondary" onClick={downloadBackup}>Download backup</Button>
+              <Button variant="ghost" onClick={dismissLoadFailure}>Dismiss</Button>
+            </CardFooter>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-3 sm:gap-4">
           {/* Left: Players & Settings */}
           <div className="lg:col-span-1 space-y-3 sm:space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center justify-between">
-                  Players
-                  <Button variant="outline" size="icon" onClick={addPlayer}>
-                    <Plus className="h-4 w-4" />
-                  </Button>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {state.players.map((p, idx) => (
-                  <div key={p.id} className={`flex items-center gap-2 p-2 rounded-xl ${idx === state.currentIndex ? "bg-white shadow" : ""}`}>
-                    <div className="text-sm w-16 opacity-60">P{idx + 1}</div>
-                    <Input
-                      className="flex-1"
-                      value={p.name}
-                      onChange={(e) => setState((s) => ({
-                        ...s,
-                        players: s.players.map((pp) => (pp.id === p.id ? { ...pp, name: e.target.value } : pp)),
-                      }))}
-                    />
-                    <div className="font-bold tabular-nums w-16 text-right">{p.score}</div>
-                    {state.players.length > 2 && (
-                      <Button variant="ghost" size="icon" onClick={() => removePlayer(p.id)}>
-                        ✕
+            <OnlinePanel online={online} setup={savedState} />
+
+            {!inRoom && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      Players
+                      <Button variant="outline" size="icon" onClick={addPlayer}>
+                        <Plus className="h-4 w-4" />
                       </Button>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {state.players.map((p, idx) => (
+                      <div key={p.id} className={`p-2 rounded-xl space-y-2 ${idx === state.currentIndex ? "bg-white shadow" : ""}`}>
+                        <div className="flex items-center gap-2">
+                          <div className="text-sm w-16 opacity-60">P{idx + 1}</div>
+                          <Input
+                            className="flex-1"
+                            value={p.name}
+                            onChange={(e) => setState((s) => applyAction(s, { type: "rename_player", playerId: p.id, name: e.target.value }))}
+                          />
+                          <div className="font-bold tabular-nums w-16 text-right">{p.score}</div>
+                          {!p.profileId && (
+                            <Button variant="ghost" size="icon" title="Save as a profile" onClick={() => saveProfile(p)}>
+                              <BookmarkPlus className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant={p.bot ? "default" : "ghost"}
+                            size="icon"
+                            title={p.bot ? "Computer player (click for human)" : "Human player (click for computer)"}
+                            onClick={() => setBot(p.id, p.bot ? null : DEFAULT_BOT)}
+                          >
+                            <Bot className="h-4 w-4" />
+                          </Button>
+                          {state.players.length > 2 && (
+                            <Button variant="ghost" size="icon" onClick={() => removePlayer(p.id)}>
+                              ✕
+                            </Button>
+                          )}
+                        </div>
+                        {p.profileId && profileName(p.profileId) && (
+                          <div className="pl-16 text-xs text-muted-foreground">
+                            Stats count towards <span className="font-medium">{profileName(p.profileId)}</span>
+                          </div>
+                        )}
+                        {p.bot && (
+                          <div className="flex items-center gap-2 pl-16">
+                            <BotStrategySelect value={p.bot} onChange={(bot) => setBot(p.id, bot)} />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {unseatedProfiles.length > 0 && (
+                      <select
+                        className="h-9 w-full rounded-md border border-gray-300 bg-white px-2 text-sm"
+                        value=""
+                        onChange={(e) => addProfilePlayer(e.target.value)}
+                      >
+                        <option value="">Add a saved player…</option>
+                        {unseatedProfiles.map((pr) => (
+                          <option key={pr.id} value={pr.id}>{pr.name}</option>
+                        ))}
+                      </select>
                     )}
-                  </div>
-                ))}
-                <Separator />
-                <div className="flex items-center gap-3">
-                  <Label className="min-w-28">Target</Label>
-                  <Input
-                    type="number"
-                    value={state.target}
-                    onChange={(e) => setState((s) => ({ ...s, target: Math.max(10, Number(e.target.value || 0)) }))}
-                  />
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2"><Settings className="h-5 w-5" /> Settings</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <Label>Confetti on win</Label>
-                  <Switch
-                    checked={state.settings.confettiOnWin}
-                    onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, confettiOnWin: v } }))}
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label>Confetti on special rolls</Label>
-                  <Switch
-                    checked={state.settings.confettiOnSpecialRolls}
-                    onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, confettiOnSpecialRolls: v } }))}
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label>Show roll hints</Label>
-                  <Switch
-                    checked={state.settings.showRollHints}
-                    onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, showRollHints: v } }))}
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label>Sound effects</Label>
-                  <Switch
-                    checked={state.settings.soundEffects}
-                    onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, soundEffects: v } }))}
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label>Show pose badges</Label>
-                  <Switch
-                    checked={state.settings.showPoseBadges}
-                    onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, showPoseBadges: v } }))}
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label>Fast roll mode</Label>
-                  <Switch
-                    checked={state.settings.fastRollMode}
-                    onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, fastRollMode: v } }))}
-                  />
-                </div>
-                <Separator />
-                <div>
-                  <div className="font-semibold mb-2">Outcome Weights</div>
-                  <div className="grid grid-cols-2 gap-3">
-                    {(Object.keys(state.settings.weights) as PigPose[]).map((pose) => (
-                      <div key={pose} className="flex items-center gap-2">
-                        <Label className="w-28 text-sm">{pose}</Label>
+                    <Separator />
+                    <div className="flex items-center gap-3">
+                      <Label className="min-w-28">Target</Label>
+                      <Input
+                        type="number"
+                        value={state.target}
+                        onChange={(e) => setState((s) => applyAction(s, { type: "set_target", target: Number(e.target.value || 0) }))}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2"><Settings className="h-5 w-5" /> Settings</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label>Confetti on win</Label>
+                      <Switch
+                        checked={state.settings.confettiOnWin}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, confettiOnWin: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Confetti on special rolls</Label>
+                      <Switch
+                        checked={state.settings.confettiOnSpecialRolls}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, confettiOnSpecialRolls: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Show roll hints</Label>
+                      <Switch
+                        checked={state.settings.showRollHints}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, showRollHints: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Sound effects</Label>
+                      <Switch
+                        checked={state.settings.soundEffects}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, soundEffects: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Show pose badges</Label>
+                      <Switch
+                        checked={state.settings.showPoseBadges}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, showPoseBadges: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Fast roll mode</Label>
+                      <Switch
+                        checked={state.settings.fastRollMode}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, fastRollMode: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Computer speed</Label>
+                      <div className="flex gap-1">
+                        {(["slow", "normal", "fast"] as const).map((speed) => (
+                          <Button
+                            key={speed}
+                            size="sm"
+                            variant={state.settings.botSpeed === speed ? "default" : "outline"}
+                            onClick={() => setState((s) => ({ ...s, settings: { ...s.settings, botSpeed: speed } }))}
+                          >
+                            {speed[0].toUpperCase() + speed.slice(1)}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Share the win on a tie</Label>
+                      <Switch
+                        checked={state.settings.tieBreak === "shared"}
+                        onCheckedChange={(v) => setRules({ tieBreak: v ? "shared" : "sudden_death" })}
+                      />
+                    </div>
+                    <Separator />
+                    <div className="flex items-center justify-between">
+                      <Label>Makin' Bacon (pigs touching)</Label>
+                      <Switch
+                        checked={state.settings.makinBacon}
+                        onCheckedChange={(v) => setRules({ makinBacon: v })}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Piggyback (pigs stacked)</Label>
+                      <Switch
+                        checked={state.settings.piggyback}
+                        onCheckedChange={(v) => setRules({ piggyback: v })}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Fair dice in online rooms</Label>
+                      <Switch
+                        checked={state.settings.fairDice}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, fairDice: v } }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Score-keeper mode (real pigs)</Label>
+                      <Switch
+                        checked={state.settings.scoreKeeper}
+                        onCheckedChange={(v) => setState((s) => ({ ...s, settings: { ...s.settings, scoreKeeper: v } }))}
+                      />
+                    </div>
+                    <Separator />
+                    <div>
+                      <div className="font-semibold mb-2">Seed</div>
+                      <div className="flex items-center gap-2">
                         <Input
                           type="number"
-                          value={state.settings.weights[pose]}
-                          onChange={(e) => updateWeight(pose, Number(e.target.value || 0))}
+                          value={state.seed}
+                          disabled={state.started}
+                          onChange={(e) => updateSeed(Number(e.target.value || 0))}
                         />
+                        <Button variant="outline" size="sm" disabled={state.started} onClick={() => updateSeed(randomSeed())}>
+                          Randomize
+                        </Button>
                       </div>
-                    ))}
-                  </div>
-                  <div className="flex justify-between items-center mt-3">
-                    <p className="text-xs text-muted-foreground">Higher number → more likely. Values are normalized automatically.</p>
-                    <Button variant="outline" size="sm" onClick={resetWeightsToDefault}>
-                      Reset to Default
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Same seed + same moves → same rolls. {state.started ? "Reset Scores to replay this seed." : "Share it to play an identical game."}
+                      </p>
+                    </div>
+                    <Separator />
+                    <WeightsEditor
+                      settings={state.settings}
+                      savedPresets={weightPresets}
+                      onChange={applyWeights}
+                      onSavePreset={(name) => saveWeights(name, state.settings.weights)}
+                      onDeletePreset={(id) => setWeightPresets((presets) => presets.filter((p) => p.id !== id))}
+                    />
+                    <Separator />
+                    <PairWeightsEditor
+                      weights={state.settings.weights}
+                      pairWeights={state.settings.pairWeights}
+                      onChange={(pairWeights) => setRules({ pairWeights })}
+                    />
+                  </CardContent>
+                </Card>
+              </>
+            )}
 
             {!state.started && (
               <Card className="mt-4">
                 <CardHeader>
-                  <CardTitle className="text-xl">Quick Rules (Simplified Classic)</CardTitle>
+                  <CardTitle className="text-xl">Quick Rules ({rules.name})</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2 text-sm">
                   <ul className="list-disc pl-5 space-y-1">
                     <li>On your turn, roll two pigs as many times as you like to build <strong>Turn Points</strong>.</li>
                     <li><strong>Hold</strong> to bank Turn Points into your total, then the next player goes.</li>
-                    <li><strong>Pig Out</strong>: opposite sides (Left + Right) → 0 for the turn and you must click "Pass the Pigs" to end your turn.</li>
-                    <li><strong>Sider</strong>: same sides (Left + Left or Right + Right) → +1 point.</li>
+                    {rules.pigOut === "bank_turn" ? (
+                      <li><strong>Pig Out</strong>: opposite sides (Left + Right) → your turn ends, but the Turn Points you built are still banked.</li>
+                    ) : (
+                      <li><strong>Pig Out</strong>: opposite sides (Left + Right) → 0 for the turn and you must click "Pass the Pigs" to end your turn.</li>
+                    )}
+                    <li><strong>Sider</strong>: same sides (Left + Left or Right + Right) → +{rules.siderPoints} point{rules.siderPoints === 1 ? "" : "s"}.</li>
                     <li><strong>Single + Sider</strong>: one special + one sider → score the special's value.</li>
-                    <li><strong>Two specials</strong>: add values. If they match, score <em>double the sum</em>.</li>
+                    <li><strong>Two specials</strong>: {rules.mixedPair === "higher" ? "score the higher value" : "add values"}. If they match, score <em>the sum × {rules.doubleMultiplier}</em>.</li>
+                    {state.settings.makinBacon && (
+                      <li><strong>Makin' Bacon</strong> (a.k.a. Oinker): pigs touching → you lose your <em>whole banked score</em> and pass the pigs.</li>
+                    )}
+                    {state.settings.piggyback && (
+                      <li><strong>Piggyback</strong>: one pig on top of the other → you are out of the game.</li>
+                    )}
                   </ul>
                   <Separator className="my-2" />
                   <div className="grid grid-cols-2 gap-2 text-sm">
                     <div className="space-y-1">
                       <div className="font-semibold">Single Pose Values</div>
-                      <div>Razorback = 5</div>
-                      <div>Trotter = 5</div>
-                      <div>Snouter = 10</div>
-                      <div>Leaning Jowler = 15</div>
+                      {specialPoses.map((pose) => (
+                        <div key={pose}>{pose} = {rules.poseValues[pose]}</div>
+                      ))}
                     </div>
                     <div className="space-y-1">
-                      <div className="font-semibold">Other</div>
-                      <div>Sider (same sides) = 1</div>
-                      <div>Pig Out (opposite sides) = 0 and pass pigs</div>
-                      <div>Double (e.g., Double Snouter) = (value+value) × 2</div>
+                      <div className="font-semibold">Doubles</div>
+                      {specialPoses.map((pose) => (
+                        <div key={pose}>Double {pose} = {doubleValue(pose, rules)}</div>
+                      ))}
                     </div>
                   </div>
                   <p className="text-xs text-muted-foreground pt-1">This build uses arcade-like probabilities (tweak in Settings). Not affiliated with the official game.</p>
@@ -1155,7 +918,9 @@ export default function App() {
                 <CardTitle className="flex items-center gap-2">
                   <Dice6 className="h-5 w-5" /> {state.started ? `${current?.name}'s Turn` : "Game Setup"}
                   {state.finalRound && (
-                    <Badge className="ml-2" variant="destructive">Final Round</Badge>
+                    <Badge className="ml-2" variant="destructive">
+                      {state.overtime === 0 ? "Final Round" : state.overtime === 1 ? "Overtime" : `Overtime ${state.overtime}`}
+                    </Badge>
                   )}
                 </CardTitle>
               </CardHeader>
@@ -1164,7 +929,29 @@ export default function App() {
                   <div className="grid md:grid-cols-2 gap-6">
                     <div>
                       <p className="mb-4 text-sm text-muted-foreground">Add players, pick a target, and start rolling those pigs! You can tweak the RNG weights in Settings for a tougher or easier game.</p>
-                      <Button className="mt-2" onClick={startGame}>Start Game</Button>
+                      {!inRoom && (
+                        <div className="mb-4 space-y-2">
+                          <Label>Rule set</Label>
+                          <div className="flex flex-wrap gap-2">
+                            {RULE_SETS.map((r) => (
+                              <Button
+                                key={r.id}
+                                size="sm"
+                                variant={r.id === rules.id ? "default" : "outline"}
+                                onClick={() => selectRuleSet(r)}
+                              >
+                                {r.name}
+                              </Button>
+                            ))}
+                          </div>
+                          <p className="text-xs text-muted-foreground">{rules.description}</p>
+                        </div>
+                      )}
+                      {online.room && online.room.hostId !== online.room.you ? (
+                        <p className="text-sm text-muted-foreground">Waiting for the host to start the game.</p>
+                      ) : (
+                        <Button className="mt-2" onClick={startGame}>Start Game</Button>
+                      )}
                     </div>
                     <div>
                       <Card className="mt-0">
@@ -1172,7 +959,7 @@ export default function App() {
                           <CardTitle className="text-base">Final Round rule</CardTitle>
                         </CardHeader>
                         <CardContent className="text-sm text-muted-foreground">
-                          When a player holds at or above the target, every other player gets exactly one more turn to beat the top score. Then the highest score wins.
+                          When a player holds at or above the target, every other player gets exactly one more turn to beat the top score. Then the highest score wins; a tie goes to sudden-death overtime unless the group shares the win.
                         </CardContent>
                       </Card>
                     </div>
@@ -1293,10 +1080,15 @@ export default function App() {
                             whileHover={{ scale: 1.05 }}
                             whileTap={{ scale: 0.95 }}
                           >
-                            <Button size="lg" onClick={passThePigs} disabled={rolling} className="px-8 bg-red-600 hover:bg-red-700">
+                            <Button size="lg" onClick={passThePigs} disabled={rolling || locked} className="px-8 bg-red-600 hover:bg-red-700">
                               Pass the Pigs
                             </Button>
                           </motion.div>
+                        ) : keepingScore ? (
+                          <>
+                            <PosePicker settings={state.settings} disabled={rolling || locked} onPick={enterRoll} />
+                            <Button size="lg" variant="secondary" onClick={hold} disabled={rolling || locked || state.turnPoints === 0}>Hold</Button>
+                          </>
                         ) : (
                           <>
                             <motion.div
@@ -1306,7 +1098,7 @@ export default function App() {
                               <Button 
                                 size="lg" 
                                 onClick={roll} 
-                                disabled={rolling || anticipating} 
+                                disabled={rolling || anticipating || locked} 
                                 className={`px-8 ${anticipating ? 'bg-yellow-500 hover:bg-yellow-600' : ''}`}
                               >
                                 {anticipating ? "..." : rolling ? "Rolling..." : "Roll"}
@@ -1316,15 +1108,23 @@ export default function App() {
                               whileHover={{ scale: 1.05 }}
                               whileTap={{ scale: 0.95 }}
                             >
-                              <Button size="lg" variant="secondary" onClick={hold} disabled={rolling || state.turnPoints === 0}>Hold</Button>
+                              <Button size="lg" variant="secondary" onClick={hold} disabled={rolling || locked || state.turnPoints === 0}>Hold</Button>
                             </motion.div>
                           </>
                         )}
                       </div>
                       {state.settings.showRollHints && (
                         <div className="mt-3 text-center text-xs text-muted-foreground px-2">
-                          {state.needsToPassPigs 
-                            ? "You got Pig Out! Click 'Pass the Pigs' to end your turn."
+                          {botTurn && !rolling && !anticipating
+                            ? `${current?.name} (computer) is deciding...`
+                            : fairRound
+                            ? `Fair dice: waiting for everyone to ${allCommitted(fairRound) ? "reveal" : "commit to"} their share of the roll...`
+                            : otherTurn && !rolling
+                            ? online.mySeat ? `Waiting for ${current?.name}...` : `Watching ${current?.name}'s turn.`
+                            : state.needsToPassPigs 
+                            ? `${lastRoll?.contact ?? "Pig Out"}! Click 'Pass the Pigs' to end your turn.`
+                            : keepingScore
+                            ? "Roll your real pigs, then tap how each one landed."
                             : anticipating
                             ? "Get ready..."
                             : rolling
@@ -1333,6 +1133,9 @@ export default function App() {
                           }
                         </div>
                       )}
+                      {state.settings.showRollHints && !state.needsToPassPigs && (
+                        <OddsPanel state={state} />
+                      )}
                     </div>
 
                     {/* History */}
@@ -1369,7 +1172,9 @@ export default function App() {
               {state.started && (
                 <CardFooter className="flex items-center justify-between">
                   <div className="text-sm text-muted-foreground">
-                    {state.finalRound
+                    {state.overtime > 0
+                      ? `Sudden death: ${tiedPlayers.map((p) => p.name).join(" and ")} are tied — one more turn each until someone leads.`
+                      : state.finalRound
                       ? "Final Round: each remaining player gets one last turn to beat the top score."
                       : `First to ${state.target} triggers the Final Round.`}
                   </div>
@@ -1397,7 +1202,9 @@ export default function App() {
                     <div key={p.id} className={`rounded-2xl border p-4 bg-white ${i === state.currentIndex ? "ring-2 ring-rose-300" : ""}`}>
                       <div className="flex items-center justify-between">
                         <div className="font-semibold truncate mr-2">{p.name}</div>
-                        {p.score >= state.target && !state.finalRound && (
+                        {p.eliminated ? (
+                          <Badge variant="destructive">Out (Piggyback)</Badge>
+                        ) : p.score >= state.target && !state.finalRound && (
                           <Badge className="gap-1"><Trophy className="h-3 w-3" /> Final Round Trigger</Badge>
                         )}
                       </div>
@@ -1411,17 +1218,34 @@ export default function App() {
               </CardContent>
             </Card>
 
-            {winner && (
+            {winners.length > 0 && (
               <Card className="border-amber-300 bg-amber-50">
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2"><Trophy className="h-5 w-5" /> {winner.name} wins!</CardTitle>
+                  <CardTitle className="flex items-center gap-2">
+                    <Trophy className="h-5 w-5" />
+                    {winners.length === 1 ? `${winners[0].name} wins!` : `${winners.map((p) => p.name).join(" and ")} share the win!`}
+                  </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-sm">Final Round complete. Great game!</p>
+                  <p className="text-sm">
+                    {winners.length > 1
+                      ? "Tied after the Final Round."
+                      : state.overtime > 0
+                      ? `Won in sudden-death overtime${state.overtime > 1 ? ` (round ${state.overtime})` : ""}.`
+                      : state.finalRound
+                      ? "Final Round complete."
+                      : "Last pig standing."}{" "}
+                    Great game!
+                  </p>
                 </CardContent>
                 <CardFooter className="flex gap-3">
-                  <Button onClick={() => resetGame(false)}>Reset Scores</Button>
-                  <Button variant="secondary" onClick={() => resetGame(true)}>New Match</Button>
+                  {!inRoom && (
+                    <>
+                      <Button onClick={() => resetGame(false)}>Reset Scores</Button>
+                      <Button variant="secondary" onClick={() => resetGame(true)}>New Match</Button>
+                    </>
+                  )}
+                  <Button variant="outline" onClick={() => watchReplay(state.log, "this game")}>Watch replay</Button>
                 </CardFooter>
               </Card>
             )}
@@ -1430,7 +1254,40 @@ export default function App() {
 
         {/* Score History - Full width at bottom */}
         <div className="mt-6">
-          <ScoreHistory scoreHistory={state.scoreHistory} players={state.players} />
+          <ScoreHistory scoreHistory={state.scoreHistory} players={state.players} target={state.target} log={gameOver ? state.log : undefined} />
+        </div>
+
+        {/* Simulator - strategies under the current weights and rules */}
+        <div className="mt-6">
+          <SimulatorPanel settings={state.settings} target={state.target} />
+        </div>
+
+        {/* Fit the outcome weights to real pigs */}
+        <div className="mt-6">
+          <CalibrationPanel weights={state.settings.weights} pairWeights={state.settings.pairWeights} matches={archive} current={state} onApply={saveWeights} />
+        </div>
+
+        {/* Archived games and their post-game reports */}
+        <div className="mt-6">
+          <PastGamesPanel
+            matches={archive}
+            onDelete={(id) => setArchive((matches) => matches.filter((m) => m.id !== id))}
+            onReplay={(match) => watchReplay(match.log, `game of ${new Date(match.finishedAt).toLocaleString()}`)}
+          />
+        </div>
+
+        {/* Backups and spreadsheet exports */}
+        <div className="mt-6">
+          <ExportPanel
+            state={state}
+            onImportGame={(imported) => setState(imported)}
+            onImportMatch={(match) => setArchive((matches) => mergeMatch(matches, match))}
+          />
+        </div>
+
+        {/* Saved players and their lifetime stats */}
+        <div className="mt-6">
+          <ProfilesPanel profiles={profileStore.profiles} onRename={renameProfile} onDelete={deleteProfile} />
         </div>
 
         <footer className="text-center text-xs text-muted-foreground mt-6">
@@ -0,0 +1,28 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { BOT_STRATEGIES } from "@/game/bots";
+import type { BotConfig, BotStrategy } from "@/game/types";
+
+// Strategy dropdown, plus the N input for "Hold at N"
+export const BotStrategySelect: React.FC<{ value: BotConfig; onChange: (bot: BotConfig) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2 flex-1">
+    <select
+      className="h-9 flex-1 rounded-md border border-gray-300 bg-white px-2 text-sm"
+      value={value.strategy}
+      title={BOT_STRATEGIES.find((b) => b.id === value.strategy)?.description}
+      onChange={(e) => onChange({ ...value, strategy: e.target.value as BotStrategy })}
+    >
+      {BOT_STRATEGIES.map((b) => (
+        <option key={b.id} value={b.id}>{b.name}</option>
+      ))}
+    </select>
+    {value.strategy === "hold_at_n" && (
+      <Input
+        type="number"
+        className="w-20 h-9"
+        value={value.holdAt}
+        onChange={(e) => onChange({ ...value, holdAt: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+      />
+    )}
+  </div>
+);
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from "react";
+import { FileUp, Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { emptyTally, fitWeights, goodnessOfFit, parseTallyCsv, tallyEnteredRolls, tallyRolls } from "@/game/calibrate";
+import type { OutcomeTally } from "@/game/calibrate";
+import type { ArchivedMatch, GameState, OutcomeWeights, PairWeights } from "@/game/types";
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+// Fit outcome weights to a tally of real rolls: typed in, taken from
+// score-keeper games, or imported from a CSV
+export const CalibrationPanel: React.FC<{
+  weights: OutcomeWeights;
+  pairWeights: PairWeights | null; // when on, the test checks the poses against it instead
+  matches: ArchivedMatch[];
+  current: Pick<GameState, "seed" | "scoreHistory">;
+  onApply: (name: string, weights: OutcomeWeights) => void;
+}> = ({ weights, pairWeights, matches, current, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [tally, setTally] = useState<OutcomeTally>(emptyTally);
+  const [name, setName] = useState("My pigs");
+  const [message, setMessage] = useState<{ tone: "ok" | "error"; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const entered = tallyEnteredRolls(matches, current);
+  const fit = fitWeights(tally, weights);
+  const test = goodnessOfFit(tally, { weights, pairWeights });
+  const against = pairWeights ? "two-pig table" : "weights";
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseTallyCsv(await file.text());
+      setTally(imported);
+      setMessage({ tone: "ok", text: `Read ${tallyRolls(imported)} rolls from ${file.name}.` });
+    } catch (e) {
+      setMessage({ tone: "error", text: `Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  };
+
+  const apply = () => {
+    if (!fit || !name.trim()) return;
+    onApply(name.trim(), fit.weights);
+    setMessage({ tone: "ok", text: `Saved "${name.trim()}" and switched the outcome weights to it.` });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Calibrate Weights
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((o) => !o)}>
+            {open ? "Hide" : "Show"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Count how your own pigs land and fit the outcome weights to them. Poses are counted per pig, Makin' Bacon and Piggyback per roll.
+            A CSV can be the Rolls export (only rows with source <code>table</code> count when the column is there) or two columns, <code>outcome,count</code>.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {(Object.keys(tally) as (keyof OutcomeTally)[]).map((o) => (
+              <div key={o} className="space-y-1">
+                <Label className="text-xs">{o}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={tally[o]}
+                  onChange={(e) => setTally((t) => ({ ...t, [o]: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setTally(entered)} disabled={tallyRolls(entered) === 0}>
+              Use score-keeper rolls ({tallyRolls(entered)})
+            </Button>
+            <Button variant="outline" onClick={() => fileInput.current?.click()}>
+              <FileUp className="mr-2 h-4 w-4" /> Import CSV…
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="text/csv,.csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ""; // allow picking the same file again
+                if (file) importFile(file);
+              }}
+            />
+            <Button variant="ghost" onClick={() => setTally(emptyTally())}>
+              Clear
+            </Button>
+          </div>
+          {fit && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 pr-3">Outcome</th>
+                      <th className="py-1 pr-3">Seen</th>
+                      <th className="py-1 pr-3">Share (95% CI)</th>
+                      <th className="py-1 pr-3">Fitted weight</th>
+                      <th className="py-1">Current</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fit.outcomes.map((o) => (
+                      <tr key={o.outcome} className="border-t">
+                        <td className="py-1 pr-3">{o.outcome}</td>
+                        <td className="py-1 pr-3 tabular-nums">{o.count}</td>
+                        <td className="py-1 pr-3 tabular-nums">
+                          {pct(o.share)} ({pct(o.interval[0])}–{pct(o.interval[1])})
+                        </td>
+                        <td className="py-1 pr-3 tabular-nums">
+                          {o.kept ? `${o.weight} (kept)` : `${o.weight} (${o.weightInterval[0]}–${o.weightInterval[1]})`}
+                        </td>
+                        <td className="py-1 tabular-nums">{weights[o.outcome]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {fit.rolls} rolls, {fit.pigs} pigs landed on a pose. Fitted pose weights add up to 100; contact outcomes never seen keep their current weight.
+              </p>
+              {test && (
+                <p className={`text-sm ${test.pValue < 0.05 ? "text-red-600" : "text-green-700"}`}>
+                  Current {against} vs this tally: χ² = {test.chiSquare === Infinity ? "∞" : test.chiSquare.toFixed(2)} on {test.df} df, p ={" "}
+                  {test.pValue < 0.001 ? "< 0.001" : test.pValue.toFixed(3)}.{" "}
+                  {test.pValue < 0.05 ? `Your pigs do not land as expected under the current ${against}.` : `Your pigs are consistent with the current ${against}.`}
+                  {test.smallCounts && " (Some poses are too rare in this tally for the test to be reliable.)"}
+                </p>
+              )}
+              <div className="flex items-center gap-2">
+                <Input className="max-w-48" value={name} onChange={(e) => setName(e.target.value)} placeholder="Preset name" />
+                <Button onClick={apply} disabled={!name.trim()}>
+                  Apply as preset
+                </Button>
+              </div>
+            </>
+          )}
+          {message && <p className={`text-sm ${message.tone === "error" ? "text-red-600" : "text-green-700"}`}>{message.text}</p>}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
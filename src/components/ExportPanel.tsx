@@ -0,0 +1,109 @@
+import React, { useRef, useState } from "react";
+import { Download, FileUp, HardDriveDownload, Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { exportGame, parseImport, rollsCsv, scoreHistoryCsv } from "@/game/exchange";
+import { encodeShare } from "@/game/share";
+import type { ArchivedMatch, GameState } from "@/game/types";
+import { copyText, downloadFile, fileDate, pageUrlWithHash, randomSeed } from "@/lib/utils";
+
+// Back up the current game (JSON), export its tables (CSV), copy a share
+// link, or import a file
+export const ExportPanel: React.FC<{
+  state: GameState;
+  onImportGame: (state: GameState) => void;
+  onImportMatch: (match: ArchivedMatch) => void;
+}> = ({ state, onImportGame, onImportMatch }) => {
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState<{ tone: "ok" | "error"; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const date = fileDate(Date.now());
+
+  const importFile = async (file: File) => {
+    try {
+      const result = parseImport(await file.text(), { randomSeed });
+      if (result.kind === "match") {
+        onImportMatch(result.match);
+        setMessage({ tone: "ok", text: `Added the game from ${new Date(result.match.finishedAt).toLocaleString()} to Past Games.` });
+      } else if (confirm("Replace the current game with the imported one?")) {
+        onImportGame(result.state);
+        setMessage({ tone: "ok", text: `Imported a game with ${result.state.players.map((p) => p.name).join(", ")}.` });
+      }
+    } catch (e) {
+      setMessage({ tone: "error", text: `Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  };
+
+  const copyLink = async (includeMoves: boolean) => {
+    let url: string;
+    try {
+      url = pageUrlWithHash(encodeShare(state, includeMoves));
+    } catch (e) {
+      setMessage({ tone: "error", text: `Could not make a game link: ${e instanceof Error ? e.message : String(e)}` });
+      return;
+    }
+    setMessage(
+      (await copyText(url))
+        ? { tone: "ok", text: includeMoves ? "Game link copied. It opens a read-only replay." : "Setup link copied." }
+        : { tone: "error", text: `Copy this link: ${url}` }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <HardDriveDownload className="h-5 w-5" />
+            Export, Import &amp; Share
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((o) => !o)}>
+            {open ? "Hide" : "Show"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            JSON files keep the whole game (settings, players, action log) and can be imported on another device. CSV files open in any spreadsheet.
+            Links carry the rules, weights, target and players (and, for a game link, every roll) in the address itself.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" onClick={() => downloadFile(`pass-the-pigs-game-${date}.json`, exportGame(state, Date.now()))}>
+              <Download className="mr-2 h-4 w-4" /> Game (JSON)
+            </Button>
+            <Button variant="outline" onClick={() => downloadFile(`pass-the-pigs-scores-${date}.csv`, scoreHistoryCsv(state.scoreHistory), "text/csv")}>
+              <Download className="mr-2 h-4 w-4" /> Score history (CSV)
+            </Button>
+            <Button variant="outline" onClick={() => downloadFile(`pass-the-pigs-rolls-${date}.csv`, rollsCsv(state.scoreHistory), "text/csv")}>
+              <Download className="mr-2 h-4 w-4" /> Rolls (CSV)
+            </Button>
+            <Button variant="outline" onClick={() => copyLink(false)}>
+              <Link2 className="mr-2 h-4 w-4" /> Copy setup link
+            </Button>
+            <Button variant="outline" onClick={() => copyLink(true)} disabled={state.scoreHistory.length === 0}>
+              <Link2 className="mr-2 h-4 w-4" /> Copy game link
+            </Button>
+            <Button variant="outline" onClick={() => fileInput.current?.click()}>
+              <FileUp className="mr-2 h-4 w-4" /> Import…
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ""; // allow picking the same file again
+                if (file) importFile(file);
+              }}
+            />
+          </div>
+          {message && (
+            <p className={`text-sm break-all ${message.tone === "error" ? "text-red-600" : "text-green-700"}`}>{message.text}</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { auditLog } from "@/game/fairDice";
+import type { RollAudit } from "@/game/fairDice";
+import type { LogEntry } from "@/game/types";
+
+// Re-checks every fair roll in a game's log: each revealed nonce against its
+// commitment, and the pigs against what the nonces pick
+export const FairDiceAudit: React.FC<{ log: LogEntry[] }> = ({ log }) => {
+  const [audit, setAudit] = useState<{ log: LogEntry[]; result: RollAudit } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const result = audit?.log === log ? audit.result : null; // stale once the game moves on
+
+  const check = async () => {
+    setChecking(true);
+    try {
+      setAudit({ log, result: await auditLog(log) });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1 text-sm">
+      <Button variant="outline" size="sm" onClick={check} disabled={checking}>
+        <ShieldCheck className="mr-1 h-4 w-4" /> {checking ? "Checking…" : "Check fair rolls"}
+      </Button>
+      {result &&
+        (result.proven === 0 ? (
+          <p className="text-muted-foreground">No fair-dice rolls in this game.</p>
+        ) : result.problems.length === 0 ? (
+          <p className="text-green-700">
+            All {result.proven} fair roll{result.proven === 1 ? "" : "s"} check out
+            {result.proven < result.rolls ? ` (${result.rolls - result.proven} other rolls had no proof)` : ""}.
+          </p>
+        ) : (
+          <ul className="text-red-600">
+            {result.problems.map((p) => (
+              <li key={p.roll}>Roll {p.roll}: {p.reason}</li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from "react";
+import { Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ScoreChart } from "@/components/ScoreChart";
+import { matchReport } from "@/game/archive";
+import { poseShare } from "@/game/profiles";
+import { PIG_POSES } from "@/game/scoring";
+import type { ArchivedMatch } from "@/game/types";
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+// Post-game report for an archived match
+export const MatchReport: React.FC<{ match: ArchivedMatch }> = ({ match }) => {
+  const report = matchReport(match);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground">
+        {new Date(match.finishedAt).toLocaleString()} · target {match.target} · {match.settings.ruleSet.name}
+        {match.overtime > 0 && ` · won in overtime`}
+      </div>
+
+      <ScoreChart scoreHistory={match.scoreHistory} players={match.players} target={match.target} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {report.map(({ player, won, biggestTurn, worstPigOut, stats }) => (
+          <div key={player.id} className="rounded-xl border bg-white p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="font-semibold truncate mr-2">{player.name}</div>
+              <div className="flex items-center gap-2">
+                {won && <Badge className="gap-1"><Trophy className="h-3 w-3" /> Winner</Badge>}
+                <span className="text-xl font-extrabold tabular-nums">{player.score}</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <div className="text-xs text-muted-foreground">Biggest turn</div>
+                <div className="font-semibold">
+                  {biggestTurn ? `+${biggestTurn.pointsEarned} (turn ${biggestTurn.turnNumber})` : "—"}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Worst Pig Out</div>
+                <div className="font-semibold">
+                  {worstPigOut ? `−${worstPigOut.lost} (turn ${worstPigOut.entry.turnNumber})` : "—"}
+                </div>
+              </div>
+            </div>
+            {stats.rolls > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Poses rolled ({stats.rolls} rolls, {stats.pigOuts} Pig Out{stats.pigOuts === 1 ? "" : "s"})</div>
+                {PIG_POSES.map((pose) => (
+                  <div key={pose} className="flex items-center gap-2 text-xs">
+                    <div className="w-28">{pose}</div>
+                    <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                      <div className="h-full bg-rose-400" style={{ width: pct(poseShare(stats, pose)) }} />
+                    </div>
+                    <div className="w-8 text-right tabular-nums">{stats.poseCounts[pose]}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useMemo } from "react";
+import { rollAgainValue, rollOdds, reachProbability } from "@/game/odds";
+import type { GameState } from "@/game/types";
+
+const pct = (x: number) => `${(x * 100).toFixed(x < 0.01 && x > 0 ? 2 : 1)}%`;
+
+// Live numbers for the Roll/Hold decision, from the current weights and rules
+export const OddsPanel: React.FC<{ state: GameState }> = ({ state }) => {
+  const { settings, turnPoints } = state;
+  const me = state.players[state.currentIndex];
+  const odds = useMemo(
+    () => rollOdds(settings),
+    [settings.weights, settings.pairWeights, settings.ruleSet, settings.makinBacon, settings.piggyback]
+  );
+
+  // In the Final Round the goal is beating the top score, not the target
+  const others = state.players.filter((p) => p.id !== me.id && !p.eliminated).map((p) => p.score);
+  const goal = state.finalRound ? Math.max(0, ...others) + 1 : state.target;
+  const need = Math.max(0, goal - me.score - turnPoints);
+  const reach = useMemo(() => reachProbability(odds, need), [odds, need]);
+  const rollValue = rollAgainValue(odds, settings, turnPoints, me.score);
+
+  const stats: { label: string; value: string; tone?: string }[] = [
+    { label: "Pig Out next roll", value: pct(odds.pigOut), tone: "text-red-600" },
+    ...(odds.makinBacon > 0 ? [{ label: "Makin' Bacon", value: pct(odds.makinBacon), tone: "text-red-600" }] : []),
+    ...(odds.piggyback > 0 ? [{ label: "Piggyback", value: pct(odds.piggyback), tone: "text-red-600" }] : []),
+    { label: "Expected points / roll", value: odds.expectedPoints.toFixed(2) },
+    {
+      label: `Value of rolling again (${turnPoints} at stake)`,
+      value: `${rollValue >= 0 ? "+" : ""}${rollValue.toFixed(2)}`,
+      tone: rollValue >= 0 ? "text-green-600" : "text-red-600",
+    },
+    {
+      label: state.finalRound ? "Chance to beat the top score this turn" : `Chance to reach ${state.target} this turn`,
+      value: pct(reach),
+    },
+  ];
+
+  return (
+    <div className="mt-3 rounded-xl border bg-amber-50/60 p-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {stats.map((s) => (
+          <div key={s.label}>
+            <div className="text-[11px] text-muted-foreground leading-tight">{s.label}</div>
+            <div className={`font-bold tabular-nums ${s.tone ?? ""}`}>{s.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 text-xs text-muted-foreground">
+        {turnPoints === 0
+          ? "Nothing at stake yet: rolling is free."
+          : rollValue >= 0
+          ? "On average, another roll gains more than it risks."
+          : "On average, another roll risks more than it gains — holding is favoured."}
+      </div>
+    </div>
+  );
+};
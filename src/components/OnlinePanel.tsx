@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { Bot, Eye, Globe, LogOut, UserRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { FairDiceAudit } from "@/components/FairDiceAudit";
+import { ROOM_CODE_LENGTH } from "@/game/room";
+import type { GameState } from "@/game/types";
+import type { OnlineRoom, RoomTransport } from "@/lib/online";
+import { roomServerUrl } from "@/lib/online";
+
+// Host or join a room, on the room server or between tabs of this browser.
+// In a room it lists the seats: pick your own player, or just watch.
+export const OnlinePanel: React.FC<{ online: OnlineRoom; setup: GameState }> = ({ online, setup }) => {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [transport, setTransport] = useState<RoomTransport>("server");
+  const { room, status, error } = online;
+
+  if (room) {
+    const watchers = room.clientCount - Object.keys(room.seats).length;
+    return (
+      <Card className="border-emerald-300">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Globe className="h-5 w-5" /> Room
+            </span>
+            <span className="font-mono text-2xl tracking-widest">{room.code}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {online.via === "tabs" ? "Other tabs of this browser" : "Others"} join with this code. Pick the player you are; you can only move on their turn.
+            {room.hostId === room.you ? " You are the host and start the game." : ""}
+            {online.via === "tabs" && room.hostId === room.you ? " This tab runs the game; closing it ends the room." : ""}
+          </p>
+          {room.state.players.map((p) => {
+            const holder = room.seats[p.id];
+            return (
+              <div key={p.id} className="flex items-center justify-between gap-2 rounded-xl bg-white p-2">
+                <span className="flex items-center gap-2 truncate">
+                  {p.bot ? <Bot className="h-4 w-4 opacity-60" /> : <UserRound className="h-4 w-4 opacity-60" />}
+                  {p.name}
+                </span>
+                {p.bot ? (
+                  <Badge variant="outline">Computer</Badge>
+                ) : holder === room.you ? (
+                  <Badge>You</Badge>
+                ) : holder ? (
+                  <Badge variant="secondary">Taken</Badge>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => online.takeSeat(p.id)}>
+                    Sit here
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Eye className="h-3 w-3" /> {watchers} watching
+          </p>
+          {room.state.settings.fairDice && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Fair dice: every seated browser helps pick each roll, so no player can fix the pigs. The host reveals last, so a tampered host could still hold back or redo a roll it dislikes; each roll's proof shows it came from the nonces everyone committed to.
+              </p>
+              <FairDiceAudit log={room.state.log} />
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+        <CardFooter className="flex gap-2">
+          {online.mySeat && (
+            <Button variant="outline" size="sm" onClick={() => online.takeSeat(null)}>
+              Just watch
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={online.leave}>
+            <LogOut className="mr-2 h-4 w-4" /> Leave room
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Globe className="h-5 w-5" /> Play Online
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((o) => !o)}>
+            {open ? "Hide" : "Show"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-3">
+          <div className="flex gap-1">
+            {(["server", "tabs"] as const).map((t) => (
+              <Button key={t} size="sm" variant={transport === t ? "default" : "outline"} onClick={() => setTransport(t)}>
+                {t === "server" ? "Room server" : "Browser tabs"}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {transport === "server" ? (
+              <>
+                Each player uses their own browser. The room server ({roomServerUrl()}) keeps the game and rolls the pigs;
+                start it with <code>npm run server</code>.
+              </>
+            ) : (
+              "No server: tabs and windows of this browser share one game. The tab that hosts runs it, the others send it their moves."
+            )}
+          </p>
+          <Button className="w-full" disabled={status === "connecting"} onClick={() => online.createRoom(setup, transport)}>
+            Host a room with these players
+          </Button>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Room code"
+              value={code}
+              maxLength={ROOM_CODE_LENGTH}
+              className="font-mono uppercase"
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && code.trim() && online.joinRoom(code, transport)}
+            />
+            <Button variant="secondary" disabled={!code.trim() || status === "connecting"} onClick={() => online.joinRoom(code, transport)}>
+              Join
+            </Button>
+          </div>
+          {status === "connecting" && <p className="text-sm text-muted-foreground">Connecting…</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
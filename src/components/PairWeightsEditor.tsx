@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { pairWeightsAreValid, validatePairWeights } from "@/game/presets";
+import { independentPairWeights, pairProbabilities, PIG_POSES } from "@/game/scoring";
+import type { OutcomeWeights, PairWeights, PigPose } from "@/game/types";
+
+const SHORT: Record<PigPose, string> = {
+  "Sider-Left": "Sider L",
+  "Sider-Right": "Sider R",
+  Razorback: "Razor",
+  Trotter: "Trotter",
+  Snouter: "Snouter",
+  "Leaning Jowler": "Jowler",
+};
+
+const pct = (x: number) => `${(x * 100).toFixed(x < 0.01 ? 2 : 1)}%`;
+
+type Draft = Record<PigPose, Record<PigPose, string>>;
+
+const mapCells = <T, U>(table: Record<PigPose, Record<PigPose, T>>, f: (v: T) => U) =>
+  Object.fromEntries(PIG_POSES.map((a) => [a, Object.fromEntries(PIG_POSES.map((b) => [b, f(table[a][b])]))])) as Record<PigPose, Record<PigPose, U>>;
+const toDraft = (pairWeights: PairWeights | null): Draft | null => pairWeights && mapCells(pairWeights, String);
+const fromDraft = (draft: Draft): PairWeights => mapCells(draft, (v) => (v.trim() === "" ? NaN : Number(v)));
+const sameTable = (a: PairWeights, b: PairWeights) => PIG_POSES.every((x) => PIG_POSES.every((y) => a[x][y] === b[x][y]));
+
+// Settings: the optional joint table over (first pig, second pig), shaded
+// by how likely each pair is. Like the weights, only a valid table reaches the game.
+export const PairWeightsEditor: React.FC<{
+  weights: OutcomeWeights;
+  pairWeights: PairWeights | null;
+  onChange: (pairWeights: PairWeights | null) => void;
+}> = ({ weights, pairWeights, onChange }) => {
+  const [draft, setDraft] = useState<Draft | null>(() => toDraft(pairWeights));
+
+  // Follow changes made elsewhere (reset, presets, another tab) unless the draft already says the same
+  useEffect(() => {
+    if (!draft || !pairWeights || !sameTable(fromDraft(draft), pairWeights)) setDraft(toDraft(pairWeights));
+  }, [pairWeights]);
+
+  const errors = draft ? validatePairWeights(fromDraft(draft)) : null;
+  const probabilities = pairProbabilities({ weights, pairWeights }); // the last valid table while editing
+  const independent = pairProbabilities({ weights, pairWeights: null });
+  const highest = Math.max(...PIG_POSES.flatMap((a) => PIG_POSES.map((b) => probabilities[a][b])));
+  const sameSide = probabilities["Sider-Left"]["Sider-Left"] + probabilities["Sider-Right"]["Sider-Right"];
+  const sameSideIndependent = independent["Sider-Left"]["Sider-Left"] + independent["Sider-Right"]["Sider-Right"];
+
+  const setCell = (a: PigPose, b: PigPose, text: string) => {
+    if (!draft) return;
+    const next = { ...draft, [a]: { ...draft[a], [b]: text } };
+    setDraft(next);
+    const candidate = fromDraft(next);
+    if (pairWeightsAreValid(validatePairWeights(candidate))) onChange(candidate);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <Label className="font-semibold">Two-pig table</Label>
+        <Switch checked={pairWeights !== null} onCheckedChange={(v) => onChange(v ? independentPairWeights(weights) : null)} />
+      </div>
+      <p className="text-xs text-muted-foreground mb-2">
+        {pairWeights
+          ? "Rolls draw both pigs at once from this table (row = first pig, column = second). Makin' Bacon and Piggyback still come from the weights above."
+          : "Off: each pig lands on its own, drawn from the weights above. Turn it on to model pigs that bump into each other."}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th />
+              {PIG_POSES.map((b) => (
+                <th key={b} className="px-1 pb-1 font-medium text-muted-foreground">{SHORT[b]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PIG_POSES.map((a) => (
+              <tr key={a}>
+                <th className="pr-2 text-right font-medium text-muted-foreground whitespace-nowrap">{SHORT[a]}</th>
+                {PIG_POSES.map((b) => {
+                  const p = probabilities[a][b];
+                  const error = errors?.cells[a]?.[b];
+                  return (
+                    <td key={b} className="p-0.5">
+                      <div
+                        className="rounded"
+                        style={{ backgroundColor: `rgba(234, 88, 12, ${highest > 0 ? (0.8 * p) / highest : 0})` }}
+                        title={error ?? `${a} + ${b}: ${pct(p)} of rolls without contact`}
+                      >
+                        {pairWeights && draft ? (
+                          <input
+                            type="number"
+                            min={0}
+                            aria-invalid={Boolean(error)}
+                            className={`w-16 bg-transparent px-1 py-1 text-right tabular-nums outline-none rounded ${error ? "ring-1 ring-red-500" : ""}`}
+                            value={draft[a][b]}
+                            onChange={(e) => setCell(a, b, e.target.value)}
+                          />
+                        ) : (
+                          <div className="w-16 px-1 py-1 text-right tabular-nums">{pct(p)}</div>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {errors && !pairWeightsAreValid(errors) && (
+        <div className="mt-2 space-y-1">
+          {PIG_POSES.flatMap((a) =>
+            PIG_POSES.filter((b) => errors.cells[a]?.[b]).map((b) => (
+              <p key={`${a}|${b}`} className="text-xs text-red-600">{SHORT[a]} + {SHORT[b]}: {errors.cells[a]?.[b]}</p>
+            ))
+          )}
+          {errors.table && <p className="text-sm text-red-600">{errors.table}</p>}
+          <p className="text-xs text-muted-foreground">The game keeps the last valid table until these are fixed.</p>
+        </div>
+      )}
+      {pairWeights && (
+        <div className="flex justify-between items-center mt-2 gap-2">
+          <p className="text-xs text-muted-foreground">
+            Same-side siders: {pct(sameSide)} of rolls without contact (independent pigs: {pct(sameSideIndependent)}).
+          </p>
+          <Button variant="outline" size="sm" onClick={() => onChange(independentPairWeights(weights))}>
+            Reset from weights
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
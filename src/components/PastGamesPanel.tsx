@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Download, History, Link2, Trash2, Tv } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FairDiceAudit } from "@/components/FairDiceAudit";
+import { MatchReport } from "@/components/MatchReport";
+import { replayLog } from "@/game/engine";
+import { exportMatch, rollsCsv, scoreHistoryCsv } from "@/game/exchange";
+import { encodeShare } from "@/game/share";
+import type { ArchivedMatch } from "@/game/types";
+import { copyText, downloadFile, fileDate, pageUrlWithHash } from "@/lib/utils";
+
+// Browsable archive of finished games; pick one to see its report
+export const PastGamesPanel: React.FC<{
+  matches: ArchivedMatch[];
+  onDelete: (id: string) => void;
+  onReplay: (match: ArchivedMatch) => void;
+}> = ({ matches, onDelete, onReplay }) => {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = matches.find((m) => m.id === selectedId) ?? null;
+  const [linkNote, setLinkNote] = useState<string | null>(null);
+
+  const copyLink = async (match: ArchivedMatch) => {
+    const game = replayLog(match.log);
+    if (!game) return setLinkNote("This game's log is incomplete, so it cannot be shared.");
+    let url: string;
+    try {
+      url = pageUrlWithHash(encodeShare(game, true));
+    } catch (e) {
+      return setLinkNote(`This game cannot be shared: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    setLinkNote((await copyText(url)) ? "Link copied." : `Copy this link: ${url}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Past Games
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((o) => !o)}>
+            {open ? "Hide" : `Show (${matches.length})`}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-4">
+          {matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Finished games are saved here automatically.</p>
+          ) : selected ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => { setSelectedId(null); setLinkNote(null); }}>
+                  ← All games
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => downloadFile(`pass-the-pigs-match-${fileDate(selected.finishedAt)}.json`, exportMatch(selected, Date.now()))}>
+                  <Download className="mr-1 h-4 w-4" /> JSON
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadFile(`pass-the-pigs-scores-${fileDate(selected.finishedAt)}.csv`, scoreHistoryCsv(selected.scoreHistory), "text/csv")}>
+                  <Download className="mr-1 h-4 w-4" /> Scores CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadFile(`pass-the-pigs-rolls-${fileDate(selected.finishedAt)}.csv`, rollsCsv(selected.scoreHistory), "text/csv")}>
+                  <Download className="mr-1 h-4 w-4" /> Rolls CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onReplay(selected)}>
+                  <Tv className="mr-1 h-4 w-4" /> Watch replay
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => copyLink(selected)}>
+                  <Link2 className="mr-1 h-4 w-4" /> Copy link
+                </Button>
+              </div>
+              {linkNote && <p className="text-sm text-muted-foreground break-all">{linkNote}</p>}
+              <MatchReport match={selected} />
+              {selected.settings.fairDice && <FairDiceAudit log={selected.log} />}
+            </>
+          ) : (
+            <div className="max-h-96 overflow-auto space-y-2">
+              {matches.map((m) => {
+                const winners = m.players.filter((p) => m.winnerIds.includes(p.id));
+                return (
+                  <div key={m.id} className="flex items-center justify-between gap-3 rounded-lg border bg-white p-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {winners.map((p) => p.name).join(" & ") || "No winner"} won · {m.players.map((p) => `${p.name} ${p.score}`).join(", ")}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(m.finishedAt).toLocaleString()} · target {m.target}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button size="sm" variant="secondary" onClick={() => setSelectedId(m.id)}>
+                        Report
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Delete from archive" onClick={() => onDelete(m.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useRef } from "react";
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import type { PigPose } from "@/game/types";
+
+const poseLabelShort: Record<PigPose, string> = {
+  "Sider-Left": "Sider L",
+  "Sider-Right": "Sider R",
+  Razorback: "Razorback",
+  Trotter: "Trotter",
+  Snouter: "Snouter",
+  "Leaning Jowler": "Jowler",
+};
+
+// One pig in the arena, animated through anticipation, the tumble and landing
+export const PigEmoji: React.FC<{ pose: PigPose; i: number; rolling?: boolean; anticipating?: boolean; showBadge?: boolean; fastRollMode?: boolean }> = ({ pose, i, rolling, anticipating, showBadge = false, fastRollMode = false }) => {
+  const previousPoseRef = useRef(pose);
+  
+  // Update previous pose when not rolling
+  if (!rolling && !anticipating) {
+    previousPoseRef.current = pose;
+  }
+
+  const variants: Record<PigPose, { rotate: number; y: number; x: number; scale?: number }> = {
+    "Sider-Left": { rotate: -90, y: 8, x: -10 },
+    "Sider-Right": { rotate: 90, y: 8, x: 10 },
+    Razorback: { rotate: -180, y: 16, x: 0, scale: 1.05 }, // Pig on its back
+    Trotter: { rotate: 0, y: -20, x: 0, scale: 1.05 }, // Pig on front legs
+    Snouter: { rotate: -45, y: -6, x: 6, scale: 1.05 }, // Pig on snout
+    "Leaning Jowler": { rotate: 45, y: -2, x: 12, scale: 1.1 }, // Pig leaning on ear
+  };
+
+  // Color schemes for each pose
+  const poseColors: Record<PigPose, { bg: string; border: string; indicator: string }> = {
+    "Sider-Left": { bg: "bg-gray-100", border: "border-gray-300", indicator: "bg-gray-500" },
+    "Sider-Right": { bg: "bg-gray-100", border: "border-gray-300", indicator: "bg-gray-500" },
+    Razorback: { bg: "bg-red-100", border: "border-red-300", indicator: "bg-red-500" },
+    Trotter: { bg: "bg-green-100", border: "border-green-300", indicator: "bg-green-500" },
+    Snouter: { bg: "bg-purple-100", border: "border-purple-300", indicator: "bg-purple-500" },
+    "Leaning Jowler": { bg: "bg-orange-100", border: "border-orange-300", indicator: "bg-orange-500" },
+  };
+
+  // Pose-specific indicators
+  const poseIndicators: Record<PigPose, string> = {
+    "Sider-Left": "◀",
+    "Sider-Right": "▶", 
+    Razorback: "▼",
+    Trotter: "▲",
+    Snouter: "◆",
+    "Leaning Jowler": "★",
+  };
+
+  const currentV = variants[pose];
+  const previousV = variants[previousPoseRef.current];
+  const colors = poseColors[pose];
+  const indicator = poseIndicators[pose];
+
+  return (
+    <motion.div
+      className="relative text-6xl select-none"
+      initial={{ y: -60, rotate: (i ? -1 : 1) * 45, opacity: 0.2 }}
+      animate={rolling ? { 
+        y: [0, 0, 0, 0, -35, 20, -15, 10, -5, currentV.y], 
+        rotate: [0, 0, 0, 0, 90, -45, 135, -30, 45, currentV.rotate], 
+        scale: [1, 1, 1, 1, 1.1, 0.9, 1.05, 0.95, 1.02, currentV.scale || 1],
+        x: [0, 0, 0, 0, i ? 8 : -8, i ? -6 : 6, i ? 5 : -5, i ? -3 : 3, i ? 2 : -2, currentV.x],
+        opacity: [1, 1, 1, 1, 0.8, 0.2, 0.8, 0.9, 0.95, 1],
+        filter: [
+          "drop-shadow(0 0 0 rgba(0,0,0,0))", 
+          "drop-shadow(0 0 0 rgba(0,0,0,0))",
+          "drop-shadow(0 0 0 rgba(0,0,0,0))",
+          "drop-shadow(0 0 0 rgba(0,0,0,0))",
+          "drop-shadow(0 4px 8px rgba(0,0,0,0.3))", 
+          "drop-shadow(0 2px 4px rgba(0,0,0,0.2))",
+          "drop-shadow(0 1px 2px rgba(0,0,0,0.1))",
+          "drop-shadow(0 0 0 rgba(0,0,0,0))"
+        ],
+        skewX: [0, 0, 0, 0, 2, -2, 1, -1, 0.5, 0],
+        skewY: [0, 0, 0, 0, 1, -1, 0.5, -0.5, 0, 0]
+      } : anticipating ? {
+        y: [previousV.y, 0, -5, 0],
+        rotate: [previousV.rotate, 0, 3, -3, 0],
+        scale: [previousV.scale || 1, 1, 1.05, 1],
+        x: [previousV.x, 0, i ? 2 : -2, 0],
+        opacity: 1
+      } : { ...currentV, opacity: 1 }}
+      layout={false}
+      transition={{ 
+        duration: rolling ? (fastRollMode ? 0.9 : 1.8) : anticipating ? (fastRollMode ? 0.15 : 0.3) : 0.35, 
+        ease: rolling ? [0.25, 0.1, 0.25, 1] : anticipating ? "easeInOut" : "easeOut",
+        times: rolling ? [0, 0.08, 0.15, 0.25, 0.4, 0.6, 0.8, 0.92, 0.98, 1] : undefined,
+        repeat: anticipating ? Infinity : undefined,
+        repeatType: anticipating ? "reverse" : undefined
+      }}
+      whileHover={rolling || anticipating ? {} : { scale: 1.05, transition: { duration: 0.1 } }}
+    >
+      {/* Pose indicator badge - only show when not rolling and showBadge is true */}
+      {!rolling && showBadge && (
+        <div 
+          className={`absolute w-4 h-4 rounded-full ${colors.indicator} bg-opacity-70 text-white text-[8px] flex items-center justify-center font-medium z-10`}
+          style={{
+            top: '-8px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+          }}
+        >
+          {indicator}
+        </div>
+      )}
+      
+      {/* Main pig emoji with enhanced rolling animation */}
+      <motion.div 
+        className="relative"
+        animate={rolling ? {
+          y: [0, -3, 0],
+          rotate: [0, 5, -5, 0],
+          scale: [1, 1.02, 0.98, 1]
+        } : {}}
+        transition={rolling ? {
+          duration: 0.4,
+          ease: "easeInOut",
+          repeat: 3,
+          repeatType: "reverse"
+        } : {}}
+      >
+        🐖
+      </motion.div>
+      
+      {/* Rolling trail effect */}
+      {rolling && (
+        <motion.div
+          className="absolute inset-0 text-6xl opacity-15"
+          animate={{
+            y: [0, -15, 0],
+            rotate: [0, 180],
+            scale: [1, 0.9, 1]
+          }}
+                  transition={{
+          duration: fastRollMode ? 0.45 : 0.9,
+          ease: "easeInOut",
+          repeat: 2,
+          repeatType: "reverse"
+        }}
+        >
+          🐖
+        </motion.div>
+      )}
+    </motion.div>
+  );
+};
+
+export const ScoreBadge: React.FC<{ pose: PigPose }> = ({ pose }) => {
+  // Color schemes for each pose (matching the pig colors)
+  const poseColors: Record<PigPose, { bg: string; text: string; border: string }> = {
+    "Sider-Left": { bg: "bg-gray-100", text: "text-gray-700", border: "border-gray-300" },
+    "Sider-Right": { bg: "bg-gray-100", text: "text-gray-700", border: "border-gray-300" },
+    Razorback: { bg: "bg-red-100", text: "text-red-700", border: "border-red-300" },
+    Trotter: { bg: "bg-green-100", text: "text-green-700", border: "border-green-300" },
+    Snouter: { bg: "bg-purple-100", text: "text-purple-700", border: "border-purple-300" },
+    "Leaning Jowler": { bg: "bg-orange-100", text: "text-orange-700", border: "border-orange-300" },
+  };
+
+  // Pose-specific icons
+  const poseIcons: Record<PigPose, string> = {
+    "Sider-Left": "◀",
+    "Sider-Right": "▶",
+    Razorback: "▼",
+    Trotter: "▲",
+    Snouter: "◆",
+    "Leaning Jowler": "★",
+  };
+
+  const colors = poseColors[pose];
+  const icon = poseIcons[pose];
+
+  return (
+    <Badge 
+      variant="secondary" 
+      className={`font-mono border ${colors.bg} ${colors.text} ${colors.border} flex items-center gap-1`}
+    >
+      <span className="text-xs">{icon}</span>
+      {poseLabelShort[pose]}
+    </Badge>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScoreBadge } from "@/components/PigEmoji";
+import { PIG_POSES, isContactEnabled, scorePair } from "@/game/scoring";
+import type { ContactOutcome, GameSettings, PigPose } from "@/game/types";
+
+const CONTACTS: ContactOutcome[] = ["Makin' Bacon", "Piggyback"];
+
+// Score-keeper mode: tap how each real pig landed. The second tap records the roll.
+export const PosePicker: React.FC<{
+  settings: Pick<GameSettings, "makinBacon" | "piggyback" | "ruleSet">;
+  disabled?: boolean;
+  onPick: (pigs: [PigPose, PigPose], contact?: ContactOutcome) => void;
+}> = ({ settings, disabled = false, onPick }) => {
+  const [first, setFirst] = useState<PigPose | null>(null);
+
+  const pick = (pose: PigPose) => {
+    if (!first) {
+      setFirst(pose);
+      return;
+    }
+    setFirst(null);
+    onPick([first, pose]);
+  };
+
+  const contacts = CONTACTS.filter((c) => isContactEnabled(c, settings));
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="text-center text-xs text-muted-foreground flex items-center justify-center gap-2 min-h-6">
+        {first ? (
+          <>
+            First pig: <ScoreBadge pose={first} /> now tap the second
+            <Button variant="ghost" size="sm" onClick={() => setFirst(null)}>Clear</Button>
+          </>
+        ) : (
+          "How did the pigs land? Tap the first pig's pose."
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {PIG_POSES.map((pose) => (
+          <button
+            key={pose}
+            type="button"
+            disabled={disabled}
+            onClick={() => pick(pose)}
+            title={first ? scorePair(first, pose, settings.ruleSet).event : pose}
+            className="flex justify-center rounded-md p-1 hover:bg-muted disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <ScoreBadge pose={pose} />
+          </button>
+        ))}
+      </div>
+      {contacts.length > 0 && (
+        <div className="flex justify-center gap-2">
+          {contacts.map((c) => (
+            <Button
+              key={c}
+              variant="outline"
+              size="sm"
+              disabled={disabled}
+              onClick={() => {
+                setFirst(null);
+                onPick(["Sider-Left", "Sider-Left"], c); // poses are ignored on contact
+              }}
+            >
+              {c}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { averagePointsPerTurn, pigOutRate, poseShare, winRate } from "@/game/profiles";
+import { PIG_POSES } from "@/game/scoring";
+import type { Profile } from "@/game/types";
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+// Lifetime stats for every saved player
+export const ProfilesPanel: React.FC<{
+  profiles: Profile[];
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ profiles, onRename, onDelete }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Player Profiles
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((o) => !o)}>
+            {open ? "Hide" : "Show"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-4">
+          {profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved players yet. Use the save button next to a player's name; their results are added here after every finished game.
+            </p>
+          ) : (
+            profiles.map((profile) => {
+              const s = profile.stats;
+              return (
+                <div key={profile.id} className="rounded-xl border bg-white p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input className="flex-1" value={profile.name} onChange={(e) => onRename(profile.id, e.target.value)} />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete profile"
+                      onClick={() => {
+                        if (confirm(`Delete ${profile.name}'s profile and lifetime stats?`)) onDelete(profile.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+                    <div>
+                      <div className="text-xs text-muted-foreground">Games</div>
+                      <div className="font-semibold tabular-nums">{s.gamesPlayed}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Wins</div>
+                      <div className="font-semibold tabular-nums">{s.wins} ({pct(winRate(s))})</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Points / turn</div>
+                      <div className="font-semibold tabular-nums">{averagePointsPerTurn(s).toFixed(1)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Pig Out rate</div>
+                      <div className="font-semibold tabular-nums">{pct(pigOutRate(s))}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Best turn</div>
+                      <div className="font-semibold tabular-nums">{s.bestTurn}</div>
+                    </div>
+                  </div>
+                  {s.rolls > 0 && (
+                    <div className="space-y-1">
+                      <div className="text-xs text-muted-foreground">Poses rolled ({s.rolls} rolls)</div>
+                      {PIG_POSES.map((pose) => (
+                        <div key={pose} className="flex items-center gap-2 text-xs">
+                          <div className="w-28">{pose}</div>
+                          <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                            <div className="h-full bg-rose-400" style={{ width: pct(poseShare(s, pose)) }} />
+                          </div>
+                          <div className="w-20 text-right tabular-nums">
+                            {s.poseCounts[pose]} · {pct(poseShare(s, pose))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
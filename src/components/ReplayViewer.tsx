@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ChevronsLeft, ChevronsRight, Pause, Play, SkipBack, SkipForward, Tv } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { PigEmoji } from "@/components/PigEmoji";
+import { describeFrame, replayFrames } from "@/game/replay";
+import type { LogEntry } from "@/game/types";
+
+const SPEEDS = [0.5, 1, 2, 4];
+const FRAME_MS = 1800; // time per step at 1×, long enough for the roll animation
+
+// Steps through a recorded game roll by roll, with the scoreboard as it
+// stood at each point
+export const ReplayViewer: React.FC<{ log: LogEntry[]; title: string; showBadges: boolean; onClose: () => void }> = ({ log, title, showBadges, onClose }) => {
+  const frames = useMemo(() => replayFrames(log) ?? [], [log]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [tumbling, setTumbling] = useState(false);
+
+  const last = frames.length - 1;
+  const frame = frames[Math.min(index, last)];
+  const fast = speed >= 2;
+
+  // Stepping forward onto a roll plays the tumble; stepping back just lands
+  const goTo = (next: number, animate: boolean) => {
+    const target = Math.max(0, Math.min(last, next));
+    setIndex(target);
+    setTumbling(animate && speed < 4 && frames[target]?.action?.type === "roll");
+  };
+
+  useEffect(() => {
+    if (!tumbling) return;
+    const timer = setTimeout(() => setTumbling(false), fast ? 900 : 1800);
+    return () => clearTimeout(timer);
+  }, [tumbling, index]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => goTo(index + 1, true), FRAME_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, speed, last]);
+
+  if (!frame) return null;
+  const s = frame.state;
+  const roll = frame.lastRoll;
+
+  return (
+    <Card className="mb-4 border-violet-300">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tv className="h-5 w-5" /> Replay: {title}
+          {s.finalRound && (
+            <Badge className="ml-2" variant="destructive">{s.overtime > 0 ? "Overtime" : "Final Round"}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-center text-sm text-muted-foreground">
+          Step {index} of {last} · Turn {s.currentTurnNumber}
+        </div>
+        <div className="text-center h-14 flex flex-col items-center justify-center">
+          <div className="text-lg font-semibold text-gray-800">
+            {tumbling ? "Rolling..." : describeFrame(frame, index > 0 ? frames[index - 1] : null)}
+          </div>
+          {!tumbling && s.turnPoints > 0 && <div className="text-sm text-muted-foreground">{s.turnPoints} turn points at stake</div>}
+        </div>
+        <div className="flex items-center justify-center gap-8 h-44">
+          <PigEmoji pose={roll?.pigs[0].pose ?? "Sider-Left"} i={0} rolling={tumbling} showBadge={showBadges} fastRollMode={fast} />
+          <PigEmoji pose={roll?.pigs[1].pose ?? "Sider-Right"} i={1} rolling={tumbling} showBadge={showBadges} fastRollMode={fast} />
+        </div>
+
+        <input
+          type="range"
+          className="w-full"
+          min={0}
+          max={last}
+          value={index}
+          onChange={(e) => goTo(Number(e.target.value), false)}
+          aria-label="Replay position"
+        />
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <Button variant="outline" size="icon" title="Start" onClick={() => goTo(0, false)} disabled={index === 0}>
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Step back" onClick={() => goTo(index - 1, false)} disabled={index === 0}>
+            <ChevronsLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            title={playing ? "Pause" : "Play"}
+            onClick={() => {
+              if (!playing && index >= last) goTo(0, false);
+              setPlaying((p) => !p);
+            }}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" size="icon" title="Step forward" onClick={() => goTo(index + 1, true)} disabled={index >= last}>
+            <ChevronsRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="End" onClick={() => goTo(last, false)} disabled={index >= last}>
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <div className="flex gap-1 ml-2">
+            {SPEEDS.map((x) => (
+              <Button key={x} size="sm" variant={speed === x ? "default" : "outline"} onClick={() => setSpeed(x)}>
+                {x}×
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {s.players.map((p, i) => (
+            <div key={p.id} className={`rounded-2xl border p-3 bg-white ${i === s.currentIndex ? "ring-2 ring-violet-300" : ""}`}>
+              <div className="flex items-center justify-between">
+                <div className="font-semibold truncate mr-2">{p.name}</div>
+                {p.eliminated && <Badge variant="destructive">Out</Badge>}
+              </div>
+              <div className="text-2xl font-extrabold tabular-nums">{p.score}</div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button variant="ghost" onClick={onClose}>Close replay</Button>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { finalRoundStart, scoreSeries } from "@/game/archive";
+import type { ScorePoint } from "@/game/archive";
+import type { Player, ScoreEntry } from "@/game/types";
+
+// One colour per seat, reused by anything that draws players side by side
+export const PLAYER_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#4b5563"];
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PAD = { left: 36, right: 12, top: 12, bottom: 24 };
+
+const actionText: Record<ScoreEntry["action"], string> = {
+  hold: "Held",
+  pass_pigs: "Passed pigs",
+  makin_bacon: "Makin' Bacon",
+  piggyback: "Piggyback",
+};
+
+// Banked score after each turn, one line per player, with the target and the
+// start of the Final Round marked. Hovering a point shows that turn.
+export const ScoreChart: React.FC<{ scoreHistory: ScoreEntry[]; players: Player[]; target: number }> = ({ scoreHistory, players, target }) => {
+  const [hovered, setHovered] = useState<{ point: ScorePoint; color: string } | null>(null);
+  const series = scoreSeries(scoreHistory, players);
+  const finalStart = finalRoundStart(scoreHistory, target);
+  const maxTurn = Math.max(1, ...scoreHistory.map((e) => e.turnNumber));
+  const maxScore = Math.max(target, ...scoreHistory.map((e) => e.newScore)) * 1.05;
+  const x = (turn: number) => PAD.left + (turn / maxTurn) * (WIDTH - PAD.left - PAD.right);
+  const y = (score: number) => HEIGHT - PAD.bottom - (score / maxScore) * (HEIGHT - PAD.top - PAD.bottom);
+  const turnStep = Math.ceil(maxTurn / 10);
+  const turnTicks = Array.from({ length: Math.floor(maxTurn / turnStep) + 1 }, (_, i) => i * turnStep);
+
+  const tooltip = hovered?.point.entry ? (() => {
+    const { point, color } = hovered;
+    const e = point.entry!;
+    const lines = [
+      `${e.playerName} · turn ${e.turnNumber}`,
+      `${actionText[e.action]}: ${e.pointsEarned > 0 ? "+" : ""}${e.pointsEarned} → ${e.newScore}`,
+    ];
+    const w = 170;
+    const h = 36;
+    // Keep the box inside the chart
+    const tx = Math.min(Math.max(x(point.turn) - w / 2, PAD.left), WIDTH - PAD.right - w);
+    const ty = y(point.score) - h - 8 < PAD.top ? y(point.score) + 8 : y(point.score) - h - 8;
+    return (
+      <g pointerEvents="none">
+        <rect x={tx} y={ty} width={w} height={h} rx="6" fill="white" stroke={color} />
+        {lines.map((line, i) => (
+          <text key={i} x={tx + 8} y={ty + 15 + i * 13} fontSize="11" fill="#111827">
+            {line}
+          </text>
+        ))}
+      </g>
+    );
+  })() : null;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Score over time">
+        {/* Axes */}
+        <line x1={PAD.left} y1={y(0)} x2={WIDTH - PAD.right} y2={y(0)} stroke="#d1d5db" />
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={y(0)} stroke="#d1d5db" />
+        {turnTicks.map((t) => (
+          <text key={t} x={x(t)} y={HEIGHT - 6} fontSize="10" textAnchor="middle" fill="#6b7280">
+            {t}
+          </text>
+        ))}
+        <text x={PAD.left - 4} y={y(0) + 3} fontSize="10" textAnchor="end" fill="#6b7280">0</text>
+
+        {/* Target */}
+        <line x1={PAD.left} y1={y(target)} x2={WIDTH - PAD.right} y2={y(target)} stroke="#f59e0b" strokeDasharray="4 4" />
+        <text x={PAD.left - 4} y={y(target) + 3} fontSize="10" textAnchor="end" fill="#b45309">{target}</text>
+
+        {/* Final Round */}
+        {finalStart && (
+          <g>
+            <line x1={x(finalStart.turnNumber)} y1={PAD.top} x2={x(finalStart.turnNumber)} y2={y(0)} stroke="#ef4444" strokeDasharray="2 3" />
+            <text x={x(finalStart.turnNumber) - 4} y={PAD.top + 10} fontSize="10" textAnchor="end" fill="#dc2626">
+              Final Round
+            </text>
+          </g>
+        )}
+
+        {series.map(({ player, points }, i) => {
+          const color = PLAYER_COLORS[i % PLAYER_COLORS.length];
+          return (
+            <g key={player.id}>
+              <polyline fill="none" stroke={color} strokeWidth="2" points={points.map((p) => `${x(p.turn)},${y(p.score)}`).join(" ")} />
+              {points.map((p, j) => (
+                <circle
+                  key={j}
+                  cx={x(p.turn)}
+                  cy={y(p.score)}
+                  r={hovered?.point === p ? 5 : 3}
+                  fill={color}
+                  onMouseEnter={() => setHovered({ point: p, color })}
+                  onMouseLeave={() => setHovered(null)}
+                />
+              ))}
+            </g>
+          );
+        })}
+
+        {tooltip}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {players.map((p, i) => (
+          <span key={p.id} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rounded-full" style={{ background: PLAYER_COLORS[i % PLAYER_COLORS.length] }} />
+            {p.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
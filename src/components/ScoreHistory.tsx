@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from "react";
+import { GraduationCap, LineChart, List, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScoreChart } from "@/components/ScoreChart";
+import { MAX_REVIEW_TARGET, reviewGameInSlices } from "@/game/coach";
+import type { CoachedDecision, DecisionGrade, GameReview } from "@/game/coach";
+import type { LogEntry, Player, ScoreEntry } from "@/game/types";
+
+export const scoreActionLabel: Record<ScoreEntry["action"], string> = {
+  hold: "Held points",
+  pass_pigs: "Passed pigs",
+  makin_bacon: "Makin' Bacon — score wiped",
+  piggyback: "Piggyback — knocked out",
+};
+
+const gradeStyle: Record<DecisionGrade, string> = {
+  good: "bg-green-50 text-green-700",
+  inaccuracy: "bg-amber-100 text-amber-800",
+  blunder: "bg-red-100 text-red-700",
+};
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+// ScoreHistory component to display player scores over turns/rounds,
+// as a grouped list or as a chart. Given the log of a finished game it can
+// also review every Roll/Hold decision (see coach.ts).
+export const ScoreHistory: React.FC<{ scoreHistory: ScoreEntry[]; players: Player[]; target: number; log?: LogEntry[] }> = ({ scoreHistory, players, target, log }) => {
+  const [view, setView] = useState<"list" | "chart">("list");
+  const [review, setReview] = useState<GameReview | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewNote, setReviewNote] = useState<string | null>(null);
+  const running = useRef<AbortController | null>(null);
+
+  const cancelReview = () => {
+    running.current?.abort();
+    running.current = null;
+    setReviewing(false);
+  };
+
+  // A new game (or none) drops the old review and stops one still solving
+  useEffect(() => {
+    cancelReview();
+    setReview(null);
+    setReviewNote(null);
+  }, [log]);
+  useEffect(() => () => running.current?.abort(), []);
+
+  // The solve runs in slices between frames, so the page stays usable
+  const runReview = async () => {
+    if (!log) return;
+    const controller = new AbortController();
+    running.current = controller;
+    setReviewing(true);
+    const result = await reviewGameInSlices(log, controller.signal);
+    if (controller.signal.aborted) return;
+    running.current = null;
+    setReview(result);
+    setReviewNote(result ? null : `Reviews need a target of ${MAX_REVIEW_TARGET} or less and a complete log.`);
+    setReviewing(false);
+  };
+
+  const decisionsByEntry = new Map<number, CoachedDecision[]>();
+  for (const d of review?.decisions ?? []) {
+    decisionsByEntry.set(d.entryIndex, [...(decisionsByEntry.get(d.entryIndex) ?? []), d]);
+  }
+
+  if (!scoreHistory || scoreHistory.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Score History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center text-muted-foreground py-8">
+            <Trophy className="h-12 w-12 mx-auto mb-3 opacity-30" />
+            <p>No score changes yet. Start playing to see the history!</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Group score entries by turn number with safety checks
+  const turnsByNumber = (scoreHistory || []).reduce((acc, entry) => {
+    // Safety check: ensure entry is valid and has required properties
+    if (!entry || typeof entry.turnNumber !== 'number' || !entry.playerId) {
+      return acc;
+    }
+    
+    if (!acc[entry.turnNumber]) {
+      acc[entry.turnNumber] = [];
+    }
+    acc[entry.turnNumber].push(entry);
+    return acc;
+  }, {} as Record<number, ScoreEntry[]>);
+
+  const turnNumbers = Object.keys(turnsByNumber).map(Number).sort((a, b) => b - a); // Most recent first
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Score History
+                     <Badge variant="secondary" className="ml-2">
+             {scoreHistory?.length || 0} change{(scoreHistory?.length || 0) === 1 ? '' : 's'}
+           </Badge>
+          <div className="ml-auto flex gap-1">
+            {log && (
+              <Button size="sm" variant="outline" onClick={reviewing ? cancelReview : runReview}>
+                <GraduationCap className="mr-1 h-4 w-4" /> {reviewing ? "Reviewing... (cancel)" : "Review"}
+              </Button>
+            )}
+            <Button size="sm" variant={view === "list" ? "default" : "outline"} onClick={() => setView("list")}>
+              <List className="mr-1 h-4 w-4" /> List
+            </Button>
+            <Button size="sm" variant={view === "chart" ? "default" : "outline"} onClick={() => setView("chart")}>
+              <LineChart className="mr-1 h-4 w-4" /> Chart
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {view === "chart" ? (
+          <ScoreChart scoreHistory={scoreHistory} players={players} target={target} />
+        ) : (
+        <>
+        {reviewNote && <p className="mb-3 text-sm text-muted-foreground">{reviewNote}</p>}
+        {review && (
+          <div className="mb-3 rounded-lg border p-3 text-sm space-y-1">
+            <div className="text-xs text-muted-foreground">
+              Each Roll and Hold against the best play for these scores, target and weights (win chance given away in brackets)
+            </div>
+            {players
+              .filter((p) => review.players[p.id])
+              .map((p) => {
+                const r = review.players[p.id];
+                return (
+                  <div key={p.id} className="flex flex-wrap gap-x-3">
+                    <span className="font-medium">{p.name}</span>
+                    <span>{r.decisions} decision{r.decisions === 1 ? "" : "s"}</span>
+                    <span className="text-amber-700">{r.inaccuracies} inaccurac{r.inaccuracies === 1 ? "y" : "ies"}</span>
+                    <span className="text-red-600">{r.blunders} blunder{r.blunders === 1 ? "" : "s"}</span>
+                    <span className="text-muted-foreground tabular-nums">(−{pct(r.equityLost)})</span>
+                  </div>
+                );
+              })}
+          </div>
+        )}
+        <div className="max-h-96 overflow-auto space-y-4">
+          {turnNumbers.map((turnNumber) => {
+            const turnEntries = turnsByNumber[turnNumber];
+            const turnStartTime = Math.min(...turnEntries.map(e => e.timestamp));
+            const turnEndTime = Math.max(...turnEntries.map(e => e.timestamp));
+            
+            return (
+              <div key={turnNumber} className="border rounded-lg p-3 bg-amber-50/30">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="font-mono">
+                      Turn {turnNumber}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(turnStartTime).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {turnEntries.length} action{turnEntries.length === 1 ? '' : 's'}
+                  </div>
+                </div>
+                
+                <div className="space-y-2">
+                  {turnEntries
+                    .filter(entry => entry && entry.playerId && typeof entry.pointsEarned === 'number') // Safety filter
+                    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+                    .map((entry, idx) => {
+                      const player = players.find(p => p.id === entry.playerId);
+                      const isPositive = entry.pointsEarned > 0;
+                      const isZero = entry.pointsEarned === 0;
+                      const decisions = decisionsByEntry.get(scoreHistory.indexOf(entry)) ?? [];
+                      
+                      return (
+                        <div key={`${entry.playerId}-${entry.timestamp}`} className="bg-white rounded-lg p-2 border">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <div className="w-8 h-8 rounded-full bg-gradient-to-br from-amber-100 to-amber-200 flex items-center justify-center text-xs font-bold">
+                              {players.findIndex(p => p.id === entry.playerId) + 1}
+                            </div>
+                            <div>
+                              <div className="font-medium text-sm">{entry.playerName}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {scoreActionLabel[entry.action]}
+                              </div>
+                            </div>
+                          </div>
+                          
+                          <div className="text-right">
+                            <div className={`font-bold text-sm ${
+                              isPositive ? 'text-green-600' : 
+                              isZero ? 'text-gray-500' : 
+                              'text-red-600'
+                            }`}>
+                              {isPositive ? `+${entry.pointsEarned}` : 
+                               isZero ? '0' : 
+                               entry.pointsEarned}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {entry.previousScore} → {entry.newScore}
+                            </div>
+                          </div>
+                        </div>
+                        {decisions.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {decisions.map((d) => (
+                              <span
+                                key={d.afterRolls}
+                                className={`rounded px-1.5 py-0.5 text-[11px] tabular-nums ${gradeStyle[d.grade]}`}
+                                title={`${d.score} banked vs ${d.opponentScore}. Rolling: ${pct(d.rollWin)} to win · holding: ${pct(d.holdWin)}`}
+                              >
+                                {d.choice === "roll" ? "Roll" : "Hold"} at {d.turnPoints} · {d.grade}
+                                {d.equityLost >= 0.001 && ` (−${pct(d.equityLost)})`}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        </div>
+                      );
+                    })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        
+                 {(scoreHistory?.length || 0) > 0 && (
+           <div className="mt-4 pt-3 border-t">
+             <div className="text-xs text-muted-foreground text-center">
+               Showing {scoreHistory?.length || 0} score change{(scoreHistory?.length || 0) === 1 ? '' : 's'} across {turnNumbers.length} turn{turnNumbers.length === 1 ? '' : 's'}
+             </div>
+           </div>
+         )}
+        </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
@@ -0,0 +1,43 @@
+import React from "react";
+import { Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { SharePayload } from "@/game/share";
+
+// Shown when the page was opened from a share link
+export const SharedLinkCard: React.FC<{
+  share: SharePayload | null;
+  error: string | null;
+  onAdopt: () => void;
+  onReplay: () => void;
+  onDismiss: () => void;
+}> = ({ share, error, onAdopt, onReplay, onDismiss }) => (
+  <Card className="mb-4 border-sky-300 bg-sky-50">
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <Link2 className="h-5 w-5" /> {share?.moves ? "Someone shared a game with you" : "Someone shared a game setup with you"}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-1 text-sm">
+      {share ? (
+        <>
+          <p>
+            {share.settings.ruleSet.name}, target {share.target}
+            {share.settings.makinBacon && ", Makin' Bacon"}
+            {share.settings.piggyback && ", Piggyback"}
+            {share.settings.tieBreak === "shared" && ", ties shared"}
+          </p>
+          <p className="opacity-70">Players: {share.players.map((p) => p.name + (p.bot ? " (computer)" : "")).join(", ")}</p>
+          {share.moves && <p className="opacity-70">{share.moves.filter((m) => m.type === "roll").length} rolls recorded</p>}
+        </>
+      ) : (
+        <p>This link could not be read: {error}</p>
+      )}
+    </CardContent>
+    <CardFooter className="flex gap-3">
+      {share && <Button onClick={onAdopt}>Use this setup</Button>}
+      {share?.moves && <Button variant="secondary" onClick={onReplay}>Open replay</Button>}
+      <Button variant="ghost" onClick={onDismiss}>Dismiss</Button>
+    </CardFooter>
+  </Card>
+);
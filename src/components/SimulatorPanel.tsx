@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { FlaskConical, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BotStrategySelect } from "@/components/BotStrategySelect";
+import { simulate } from "@/game/simulate";
+import type { SimulationResult } from "@/game/simulate";
+import type { BotConfig, GameSettings } from "@/game/types";
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+// Runs bot-vs-bot games under the current weights and rule set
+export const SimulatorPanel: React.FC<{ settings: GameSettings; target: number }> = ({ settings, target }) => {
+  const [open, setOpen] = useState(false);
+  const [seats, setSeats] = useState<BotConfig[]>([
+    { strategy: "hold_at_20", holdAt: 25 },
+    { strategy: "optimal", holdAt: 25 },
+  ]);
+  const [games, setGames] = useState(1000);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  const run = () => {
+    setRunning(true);
+    // Let the "Running..." state paint before the (synchronous) batch
+    setTimeout(() => {
+      setResult(simulate({ strategies: seats, games, target, settings, seed: Date.now() >>> 0 }));
+      setRunning(false);
+    }, 20);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Simulator
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((o) => !o)}>
+            {open ? "Hide" : "Show"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Plays computer-vs-computer games with the current outcome weights, rule set and a target of {target}. Seats take turns going first.
+          </p>
+          <div className="space-y-2">
+            {seats.map((bot, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <div className="text-sm w-16 opacity-60">Seat {i + 1}</div>
+                <BotStrategySelect value={bot} onChange={(b) => setSeats((prev) => prev.map((x, j) => (j === i ? b : x)))} />
+                {seats.length > 2 && (
+                  <Button variant="ghost" size="icon" onClick={() => setSeats((prev) => prev.filter((_, j) => j !== i))}>
+                    ✕
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setSeats((prev) => [...prev, { strategy: "hold_at_n", holdAt: 25 }])}>
+              <Plus className="mr-2 h-4 w-4" /> Add seat
+            </Button>
+          </div>
+          <div className="flex items-center gap-3">
+            <Label className="min-w-28">Games</Label>
+            <Input
+              type="number"
+              value={games}
+              onChange={(e) => setGames(Math.min(20000, Math.max(1, Number(e.target.value || 0))))}
+            />
+            <Button onClick={run} disabled={running}>
+              {running ? "Running..." : "Run"}
+            </Button>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="overflow-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-3">Strategy</th>
+                      <th className="py-2 pr-3 text-right">Win rate</th>
+                      <th className="py-2 pr-3 text-right">Pig Out / turn</th>
+                      <th className="py-2 pr-3 text-right">Rolls / turn</th>
+                      <th className="py-2 pr-3 text-right">Points / turn</th>
+                      <th className="py-2 text-right">Final score (p10 · median · p90)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.seats.map((s) => (
+                      <tr key={s.seat} className="border-b last:border-0">
+                        <td className="py-2 pr-3 font-medium">{s.label}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums font-bold">{pct(s.winRate)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{pct(s.pigOutRate)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{s.avgRollsPerTurn.toFixed(2)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{s.avgPointsPerTurn.toFixed(1)}</td>
+                        <td className="py-2 text-right tabular-nums">
+                          {s.finalScores.p10} · {s.finalScores.median} · {s.finalScores.p90}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="text-xs text-muted-foreground space-y-1">
+                <div>
+                  {result.games} games · rounds per game: mean {result.rounds.mean.toFixed(1)}, median {result.rounds.median}, longest {result.rounds.max}
+                </div>
+                <div>
+                  Final Round reached in {pct(result.finalRoundRate)} of games; won by someone other than the trigger player {pct(result.finalRoundComebackRate)} of the time.
+                </div>
+                {result.unfinished > 0 && <div>{result.unfinished} games hit the turn cap and were stopped.</div>}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
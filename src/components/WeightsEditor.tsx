@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CONTACT_OUTCOMES } from "@/game/calibrate";
+import { rollOdds } from "@/game/odds";
+import { BUILT_IN_WEIGHT_PRESETS, presetMatching, sameWeights, validateWeights, weightsAreValid } from "@/game/presets";
+import { DEFAULT_WEIGHTS, PIG_POSES, poseProbabilities } from "@/game/scoring";
+import type { GameSettings, OutcomeWeights, WeightPreset } from "@/game/types";
+
+const pct = (x: number) => `${(x * 100).toFixed(x < 0.01 && x > 0 ? 2 : 1)}%`;
+
+type Draft = Record<keyof OutcomeWeights, string>;
+
+const toDraft = (weights: OutcomeWeights) => Object.fromEntries(Object.entries(weights).map(([k, v]) => [k, String(v)])) as Draft;
+const fromDraft = (draft: Draft) =>
+  Object.fromEntries(Object.entries(draft).map(([k, v]) => [k, v.trim() === "" ? NaN : Number(v)])) as OutcomeWeights;
+
+// Settings: outcome weights with presets, inline validation, a bar chart of
+// each pose's chance and the odds they add up to. Only valid tables reach the game.
+export const WeightsEditor: React.FC<{
+  settings: Pick<GameSettings, "weights" | "pairWeights" | "makinBacon" | "piggyback" | "ruleSet">;
+  savedPresets: WeightPreset[];
+  onChange: (weights: OutcomeWeights) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}> = ({ settings, savedPresets, onChange, onSavePreset, onDeletePreset }) => {
+  const { weights } = settings;
+  const [draft, setDraft] = useState<Draft>(() => toDraft(weights));
+  const [name, setName] = useState("");
+
+  // Follow changes made elsewhere (presets, calibration, another tab) unless the draft already says the same
+  useEffect(() => {
+    if (!sameWeights(fromDraft(draft), weights)) setDraft(toDraft(weights));
+  }, [weights]);
+
+  const parsed = fromDraft(draft);
+  const errors = validateWeights(parsed);
+  const valid = weightsAreValid(errors);
+  const shown = valid ? parsed : weights; // the chart and odds keep the last good table while editing
+  const probabilities = poseProbabilities({ weights: shown, pairWeights: settings.pairWeights });
+  const highest = Math.max(...PIG_POSES.map((p) => probabilities[p]));
+  const odds = rollOdds({ ...settings, weights: shown });
+  const presets = [...BUILT_IN_WEIGHT_PRESETS, ...savedPresets];
+  const current = presetMatching(weights, presets);
+  const saved = current && savedPresets.some((p) => p.id === current.id) ? current : null;
+
+  const edit = (key: keyof OutcomeWeights, text: string) => {
+    const next = { ...draft, [key]: text };
+    setDraft(next);
+    const candidate = fromDraft(next);
+    if (weightsAreValid(validateWeights(candidate))) onChange(candidate);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-semibold">Outcome Weights</div>
+        <select
+          className="h-9 rounded-md border border-gray-300 bg-white px-2 text-sm"
+          value={current?.id ?? ""}
+          onChange={(e) => {
+            const preset = presets.find((p) => p.id === e.target.value);
+            if (preset) onChange({ ...preset.weights });
+          }}
+        >
+          <option value="" disabled>Custom</option>
+          <optgroup label="Built in">
+            {BUILT_IN_WEIGHT_PRESETS.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </optgroup>
+          {savedPresets.length > 0 && (
+            <optgroup label="Saved">
+              {savedPresets.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {[...PIG_POSES, ...CONTACT_OUTCOMES].map((key) => (
+          <div key={key}>
+            <div className="flex items-center gap-2">
+              <Label className="w-28 text-sm">{key}</Label>
+              <Input
+                type="number"
+                min={0}
+                aria-invalid={Boolean(errors.fields[key])}
+                className={errors.fields[key] ? "border-red-500" : ""}
+                value={draft[key]}
+                onChange={(e) => edit(key, e.target.value)}
+              />
+            </div>
+            {errors.fields[key] && <p className="text-xs text-red-600 mt-1 text-right">{errors.fields[key]}</p>}
+          </div>
+        ))}
+      </div>
+      {errors.table && <p className="text-sm text-red-600">{errors.table}</p>}
+      {!valid && <p className="text-xs text-muted-foreground">The game keeps the last valid weights until these are fixed.</p>}
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-muted-foreground">Higher number → more likely. Only the proportions matter.</p>
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...DEFAULT_WEIGHTS })}>
+          Reset to Default
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">
+          Chance of each pose, per pig{settings.pairWeights ? " (from the two-pig table)" : ""}
+        </div>
+        {PIG_POSES.map((pose) => (
+          <div key={pose} className="flex items-center gap-2 text-xs">
+            <div className="w-28">{pose}</div>
+            <div className="flex-1 h-3 rounded bg-muted overflow-hidden">
+              <div className="h-full rounded bg-orange-500" style={{ width: `${highest > 0 ? (probabilities[pose] / highest) * 100 : 0}%` }} />
+            </div>
+            <div className="w-14 text-right tabular-nums">{pct(probabilities[pose])}</div>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          { label: "Pig Out", value: pct(odds.pigOut), tone: "text-red-600" },
+          { label: "Sider", value: pct(odds.sider) },
+          { label: "Any double", value: pct(odds.double) },
+          { label: "Expected points / roll", value: odds.expectedPoints.toFixed(2) },
+        ].map((s) => (
+          <div key={s.label}>
+            <div className="text-[11px] text-muted-foreground leading-tight">{s.label}</div>
+            <div className={`font-bold tabular-nums ${s.tone ?? ""}`}>{s.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input className="max-w-48" value={name} onChange={(e) => setName(e.target.value)} placeholder="Preset name" />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!name.trim() || !valid}
+          onClick={() => {
+            onSavePreset(name.trim());
+            setName("");
+          }}
+        >
+          Save as preset
+        </Button>
+        {saved && (
+          <Button variant="ghost" size="sm" onClick={() => onDeletePreset(saved.id)}>
+            Delete "{saved.name}"
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { archiveMatch, ARCHIVE_LIMIT, finalRoundStart, matchReport, parseArchive, pointsLost, scoreSeries } from "./archive";
+import { applyAction, createInitialState, undo } from "./engine";
+import type { ArchivedMatch, GameAction, GameState, PigPose } from "./types";
+
+const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+const hold: GameAction = { type: "hold", timestamp: 1 };
+const pass: GameAction = { type: "pass_pigs", timestamp: 2 };
+const pigOut = roll("Sider-Left", "Sider-Right");
+
+// Ann banks 10, Bob loses 15 to a Pig Out, Ann then reaches 50 and Bob pigs out again
+const finished = (): GameState => {
+  const start = applyAction(
+    createInitialState([{ id: "a", name: "Ann", score: 0 }, { id: "b", name: "Bob", score: 0 }], 50),
+    { type: "start" },
+  );
+  return play(
+    start,
+    roll("Snouter", "Sider-Left"), hold,
+    roll("Trotter", "Sider-Left"), roll("Snouter", "Sider-Left"), pigOut, pass,
+    roll("Snouter", "Snouter"), hold,
+    pigOut, pass,
+  );
+};
+
+describe("archiveMatch", () => {
+  it("keeps a finished game with its winner and full log", () => {
+    const s = finished();
+    const [match] = archiveMatch([], s, 1000);
+    expect(match.finishedAt).toBe(1000);
+    expect(match.winnerIds).toEqual(["a"]);
+    expect(match.players.map((p) => p.score)).toEqual([50, 0]);
+    expect(match.log).toBe(s.log);
+    expect(match.scoreHistory).toHaveLength(4);
+  });
+
+  it("skips unfinished and already archived games", () => {
+    const s = finished();
+    const archive = archiveMatch([], s, 1000);
+    expect(archiveMatch(archive, s, 2000)).toBe(archive);
+    const unfinished = applyAction(createInitialState([{ id: "a", name: "Ann", score: 0 }, { id: "b", name: "Bob", score: 0 }]), { type: "start" });
+    expect(archiveMatch(archive, unfinished, 2000)).toBe(archive);
+  });
+
+  it("replaces a game that was undone and won by someone else", () => {
+    const s = finished();
+    const replayed = play(undo(undo(s)), roll("Snouter", "Snouter"), roll("Snouter", "Snouter"), hold); // Bob reaches 80
+    const archive = archiveMatch(archiveMatch([], s, 1000), replayed, 2000);
+    expect(archive).toHaveLength(1);
+    expect(archive[0].winnerIds).toEqual(["b"]);
+  });
+
+  it("drops the oldest games past the limit", () => {
+    const old = Array.from({ length: ARCHIVE_LIMIT }, (_, i) => ({ id: `old-${i}` }) as ArchivedMatch);
+    const archive = archiveMatch(old, finished(), 1000);
+    expect(archive).toHaveLength(ARCHIVE_LIMIT);
+    expect(archive[0].finishedAt).toBe(1000);
+    expect(archive[archive.length - 1].id).toBe(`old-${ARCHIVE_LIMIT - 2}`);
+  });
+});
+
+describe("matchReport", () => {
+  it("finds each player's biggest turn and worst Pig Out", () => {
+    const [ann, bob] = matchReport(archiveMatch([], finished(), 0)[0]);
+    expect(ann.won).toBe(true);
+    expect(ann.biggestTurn?.pointsEarned).toBe(40);
+    expect(ann.worstPigOut).toBeNull();
+    expect(bob.biggestTurn).toBeNull();
+    expect(bob.worstPigOut?.lost).toBe(15);
+    expect(bob.worstPigOut?.entry.turnNumber).toBe(1);
+    expect(bob.stats.pigOuts).toBe(2);
+    expect(bob.stats.poseCounts["Sider-Left"]).toBe(4);
+  });
+
+  it("counts nothing lost when the rule set banks a Pig Out", () => {
+    const [entry] = finished().scoreHistory.filter((e) => e.playerId === "b");
+    expect(pointsLost(entry)).toBe(15);
+    expect(pointsLost({ ...entry, pointsEarned: 15 })).toBe(0);
+  });
+});
+
+describe("scoreSeries", () => {
+  it("starts every player at 0 and follows newScore", () => {
+    const s = finished();
+    const [ann, bob] = scoreSeries(s.scoreHistory, s.players);
+    expect(ann.points.map((p) => [p.turn, p.score])).toEqual([[0, 0], [1, 10], [2, 50]]);
+    expect(bob.points.map((p) => p.score)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("finalRoundStart", () => {
+  it("is the first bank that reaches the target", () => {
+    const s = finished();
+    expect(finalRoundStart(s.scoreHistory, 50)).toMatchObject({ playerId: "a", turnNumber: 2, newScore: 50 });
+    expect(finalRoundStart(s.scoreHistory, 60)).toBeNull();
+  });
+});
+
+describe("parseArchive", () => {
+  it("drops entries that are not matches", () => {
+    const match = archiveMatch([], finished(), 0)[0];
+    expect(parseArchive([match, { id: "broken" }, null])).toEqual([match]);
+    expect(() => parseArchive({})).toThrow();
+  });
+});
@@ -0,0 +1,103 @@
+// ---------------------------------------------
+// Past Games archive: finished games kept after Reset Scores / New Match,
+// plus the numbers behind the post-game report.
+// ---------------------------------------------
+
+import { getWinners, isGameOver } from "./engine";
+import { addTurns, emptyStats, isPigOutTurn, matchKey, matchStart } from "./profiles";
+import type { ArchivedMatch, GameState, Player, ProfileStats, ScoreEntry } from "./types";
+
+// Oldest games are dropped beyond this many
+export const ARCHIVE_LIMIT = 100;
+
+// Snapshot a game in archive form (also used to show shared games)
+export function toArchivedMatch(s: GameState, id: string, finishedAt: number): ArchivedMatch {
+  return {
+    id,
+    finishedAt,
+    target: s.target,
+    players: s.players,
+    settings: s.settings,
+    winnerIds: getWinners(s).map((p) => p.id),
+    overtime: s.overtime,
+    scoreHistory: s.scoreHistory,
+    log: s.log,
+  };
+}
+
+// Add a finished game to the front of the archive, in place of an earlier
+// result of the same match. Returns the archive unchanged if the game is not
+// over or is already in it.
+export function archiveMatch(archive: ArchivedMatch[], s: GameState, finishedAt: number): ArchivedMatch[] {
+  const id = matchKey(s);
+  if (!id || !isGameOver(s) || archive.some((m) => m.id === id)) return archive;
+  const others = archive.filter((m) => matchStart(m.id) !== matchStart(id));
+  return [toArchivedMatch(s, id, finishedAt), ...others].slice(0, ARCHIVE_LIMIT);
+}
+
+// Check a parsed archive (throws if it is not a list); drops entries that
+// are not usable matches rather than losing the whole archive.
+export function parseArchive(parsed: unknown): ArchivedMatch[] {
+  if (!Array.isArray(parsed)) throw new Error("match archive is not a list");
+  return parsed.filter(
+    (m: any) =>
+      m && typeof m.id === 'string' && Array.isArray(m.players) && Array.isArray(m.scoreHistory) && Array.isArray(m.log) && m.settings
+  );
+}
+
+// Turn points thrown away by a Pig Out (0 when the rule set banks them)
+export function pointsLost(e: ScoreEntry): number {
+  if (!isPigOutTurn(e) || !e.rolls) return 0;
+  const rolled = e.rolls.reduce((sum, r) => sum + r.points, 0);
+  return Math.max(0, rolled - Math.max(0, e.pointsEarned));
+}
+
+export type PlayerReport = {
+  player: Player;
+  won: boolean;
+  biggestTurn: ScoreEntry | null;
+  worstPigOut: { entry: ScoreEntry; lost: number } | null;
+  stats: ProfileStats; // this game only; poseCounts, rolls, pigOuts, …
+};
+
+export function matchReport(match: Pick<ArchivedMatch, "players" | "winnerIds" | "scoreHistory">): PlayerReport[] {
+  return match.players.map((player) => {
+    const entries = match.scoreHistory.filter((e) => e.playerId === player.id);
+    let biggestTurn: ScoreEntry | null = null;
+    let worstPigOut: PlayerReport["worstPigOut"] = null;
+    for (const e of entries) {
+      if (e.pointsEarned > 0 && (!biggestTurn || e.pointsEarned > biggestTurn.pointsEarned)) biggestTurn = e;
+      if (isPigOutTurn(e)) {
+        const lost = pointsLost(e);
+        if (!worstPigOut || lost > worstPigOut.lost) worstPigOut = { entry: e, lost };
+      }
+    }
+    return {
+      player,
+      won: match.winnerIds.includes(player.id),
+      biggestTurn,
+      worstPigOut,
+      stats: addTurns(emptyStats(), entries),
+    };
+  });
+}
+
+export type ScorePoint = { turn: number; score: number; entry: ScoreEntry | null };
+
+// Each player's banked score after every turn, starting from 0 at turn 0
+export function scoreSeries(scoreHistory: ScoreEntry[], players: Player[]): { player: Player; points: ScorePoint[] }[] {
+  return players.map((player) => ({
+    player,
+    points: [
+      { turn: 0, score: 0, entry: null },
+      ...scoreHistory
+        .filter((e) => e.playerId === player.id)
+        .map((e) => ({ turn: e.turnNumber, score: e.newScore, entry: e })),
+    ],
+  }));
+}
+
+// The turn that triggered the Final Round: the first bank at or over the target
+export function finalRoundStart(scoreHistory: ScoreEntry[], target: number): ScoreEntry | null {
+  return scoreHistory.find((e) => e.newScore >= target && e.pointsEarned > 0) ?? null;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { chooseBotMove } from "./bots";
+import { applyAction, createInitialState } from "./engine";
+import type { BotConfig, GameState } from "./types";
+
+const ann = { id: "a", name: "Ann", score: 0 };
+const bob = { id: "b", name: "Bob", score: 0 };
+
+const started = (target = 100): GameState => applyAction(createInitialState([ann, bob], target), { type: "start" });
+
+// Ann mid-turn, holding `turnPoints` on top of her banked `score`
+const midTurn = (turnPoints: number, score = 0, target = 100): GameState => {
+  const s = started(target);
+  return { ...s, turnPoints, players: s.players.map((p, i) => (i === 0 ? { ...p, score } : p)) };
+};
+
+const bot = (strategy: BotConfig["strategy"], holdAt = 25): BotConfig => ({ strategy, holdAt });
+
+describe("chooseBotMove", () => {
+  it("passes the pigs when the turn has ended", () => {
+    expect(chooseBotMove({ ...midTurn(0), needsToPassPigs: true }, bot("hold_at_20"))).toBe("pass_pigs");
+  });
+
+  it("always rolls at the start of a turn", () => {
+    for (const strategy of ["hold_at_20", "hold_at_n", "race", "optimal"] as const) {
+      expect(chooseBotMove(midTurn(0), bot(strategy, 1))).toBe("roll");
+    }
+  });
+
+  it("holds at 20 for hold_at_20", () => {
+    expect(chooseBotMove(midTurn(19), bot("hold_at_20"))).toBe("roll");
+    expect(chooseBotMove(midTurn(20), bot("hold_at_20"))).toBe("hold");
+  });
+
+  it("holds at its own threshold for hold_at_n, never below 1", () => {
+    expect(chooseBotMove(midTurn(29), bot("hold_at_n", 30))).toBe("roll");
+    expect(chooseBotMove(midTurn(30), bot("hold_at_n", 30))).toBe("hold");
+    expect(chooseBotMove(midTurn(1), bot("hold_at_n", 0))).toBe("hold");
+  });
+
+  it("keeps rolling until the target for race", () => {
+    expect(chooseBotMove(midTurn(60, 30), bot("race"))).toBe("roll");
+    expect(chooseBotMove(midTurn(70, 30), bot("race"))).toBe("hold");
+  });
+
+  it("rolls only while another roll is worth it for optimal", () => {
+    expect(chooseBotMove(midTurn(20, 0, 5000), bot("optimal"))).toBe("roll");
+    expect(chooseBotMove(midTurn(1000, 0, 5000), bot("optimal"))).toBe("hold");
+  });
+
+  it("banks as soon as the turn reaches the target, whatever the strategy", () => {
+    expect(chooseBotMove(midTurn(5, 95), bot("hold_at_20"))).toBe("hold");
+    expect(chooseBotMove(midTurn(5, 95), bot("hold_at_n", 50))).toBe("hold");
+  });
+
+  it("keeps rolling in the Final Round until the top score is beaten", () => {
+    const s: GameState = {
+      ...midTurn(30, 80),
+      finalRound: true,
+      players: [{ ...ann, score: 80 }, { ...bob, score: 120 }],
+    };
+    expect(chooseBotMove(s, bot("hold_at_20"))).toBe("roll");
+    expect(chooseBotMove({ ...s, turnPoints: 41 }, bot("hold_at_20"))).toBe("hold");
+  });
+});
@@ -0,0 +1,61 @@
+// ---------------------------------------------
+// Computer opponents. Pure decision functions: given a state whose current
+// player is a bot, say which button it would press.
+// ---------------------------------------------
+
+import { rollAgainValue, rollOdds } from "./odds";
+import type { RollOdds } from "./odds";
+import type { BotConfig, BotStrategy, GameSettings, GameState } from "./types";
+
+export const BOT_STRATEGIES: { id: BotStrategy; name: string; description: string }[] = [
+  { id: "hold_at_20", name: "Hold at 20", description: "Banks once the turn is worth 20 points." },
+  { id: "hold_at_n", name: "Hold at N", description: "Banks once the turn is worth N points." },
+  { id: "race", name: "Race to target", description: "Keeps rolling until this turn reaches the target." },
+  { id: "optimal", name: "Expected value", description: "Rolls only while another roll gains more on average than it risks." },
+];
+
+export const DEFAULT_BOT: BotConfig = { strategy: "hold_at_20", holdAt: 25 };
+
+export type BotMove = "roll" | "hold" | "pass_pigs";
+
+// Odds only change with the settings, which the engine carries over by
+// reference from state to state, so one computation serves a whole game.
+const oddsCache = new WeakMap<GameSettings, RollOdds>();
+function cachedOdds(settings: GameSettings): RollOdds {
+  let odds = oddsCache.get(settings);
+  if (!odds) {
+    odds = rollOdds(settings);
+    oddsCache.set(settings, odds);
+  }
+  return odds;
+}
+
+// Roll or hold for the strategy alone, ignoring end-of-game situations
+function strategyWantsToRoll(s: GameState, bot: BotConfig): boolean {
+  const me = s.players[s.currentIndex];
+  switch (bot.strategy) {
+    case "hold_at_20":
+      return s.turnPoints < 20;
+    case "hold_at_n":
+      return s.turnPoints < Math.max(1, bot.holdAt);
+    case "race":
+      return me.score + s.turnPoints < s.target;
+    case "optimal":
+      return rollAgainValue(cachedOdds(s.settings), s.settings, s.turnPoints, me.score) > 0;
+  }
+}
+
+// Every strategy shares two rules: bank as soon as the turn reaches the
+// target, and in the Final Round keep rolling until the top score is beaten.
+export function chooseBotMove(s: GameState, bot: BotConfig): BotMove {
+  if (s.needsToPassPigs) return "pass_pigs";
+  if (s.turnPoints === 0) return "roll";
+  const me = s.players[s.currentIndex];
+  const total = me.score + s.turnPoints;
+  if (s.finalRound) {
+    const best = Math.max(...s.players.filter((p) => p.id !== me.id && !p.eliminated).map((p) => p.score));
+    return total > best ? "hold" : "roll";
+  }
+  if (total >= s.target) return "hold";
+  return strategyWantsToRoll(s, bot) ? "roll" : "hold";
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { chiSquarePValue, emptyTally, fitWeights, goodnessOfFit, parseTallyCsv, tallyEnteredRolls, tallyRolls, wilsonInterval } from "./calibrate";
+import { rollsCsv } from "./exchange";
+import { matchKey } from "./profiles";
+import { DEFAULT_WEIGHTS, independentPairWeights } from "./scoring";
+import type { OutcomeTally } from "./calibrate";
+import type { ScoreEntry } from "./types";
+
+const tally = (counts: Partial<OutcomeTally>): OutcomeTally => ({ ...emptyTally(), ...counts });
+
+const entry = (rolls: ScoreEntry["rolls"]): ScoreEntry => ({
+  playerId: "a",
+  playerName: "Ann",
+  turnNumber: 1,
+  previousScore: 0,
+  newScore: 0,
+  pointsEarned: 0,
+  action: "hold",
+  timestamp: 0,
+  rolls,
+});
+
+describe("calibration", () => {
+  it("fits pose weights to the share of pigs and contact weights so drawRoll gives back their share", () => {
+    const fit = fitWeights(tally({ "Sider-Left": 60, "Sider-Right": 40, Razorback: 80, Trotter: 20, "Makin' Bacon": 10 }), DEFAULT_WEIGHTS)!;
+    expect(fit.pigs).toBe(200);
+    expect(fit.rolls).toBe(110);
+    expect(fit.weights.Razorback).toBe(40);
+    expect(fit.weights.Snouter).toBe(0);
+    // 10 of 110 rolls touching: 10/100 of the pose total
+    expect(fit.weights["Makin' Bacon"]).toBe(10);
+    // never seen: kept from the current table
+    expect(fit.weights.Piggyback).toBe(DEFAULT_WEIGHTS.Piggyback);
+    const razorback = fit.outcomes.find((o) => o.outcome === "Razorback")!;
+    expect(razorback.interval[0]).toBeLessThan(0.4);
+    expect(razorback.interval[1]).toBeGreaterThan(0.4);
+    expect(fitWeights(emptyTally(), DEFAULT_WEIGHTS)).toBeNull();
+  });
+
+  it("gives Wilson intervals that stay inside 0..1", () => {
+    const [low, high] = wilsonInterval(0, 20);
+    expect(low).toBe(0);
+    expect(high).toBeCloseTo(0.161, 3);
+    expect(wilsonInterval(50, 100)[0]).toBeCloseTo(0.404, 3);
+  });
+
+  it("tests the current weights against the tally", () => {
+    expect(chiSquarePValue(11.07, 5)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    const fair = tally({ "Sider-Left": 349, "Sider-Right": 302, Razorback: 224, Trotter: 88, Snouter: 30, "Leaning Jowler": 7 });
+    expect(goodnessOfFit(fair, { weights: DEFAULT_WEIGHTS })!.pValue).toBeGreaterThan(0.99);
+    const skewed = tally({ "Sider-Left": 100, "Sider-Right": 100, Razorback: 100, Trotter: 100, Snouter: 100, "Leaning Jowler": 100 });
+    expect(goodnessOfFit(skewed, { weights: DEFAULT_WEIGHTS })!.pValue).toBeLessThan(0.001);
+    expect(goodnessOfFit(tally({ Trotter: 2 }), { weights: { ...DEFAULT_WEIGHTS, Trotter: 0 } })!.pValue).toBe(0);
+  });
+
+  it("tests against the two-pig table when it is on", () => {
+    const even = tally({ "Sider-Left": 100, "Sider-Right": 100, Razorback: 100, Trotter: 100, Snouter: 100, "Leaning Jowler": 100 });
+    const evenWeights = Object.fromEntries(Object.keys(DEFAULT_WEIGHTS).map((k) => [k, 1])) as typeof DEFAULT_WEIGHTS;
+    const pairWeights = independentPairWeights(evenWeights);
+    expect(goodnessOfFit(even, { weights: DEFAULT_WEIGHTS, pairWeights: null })!.pValue).toBeLessThan(0.001);
+    expect(goodnessOfFit(even, { weights: DEFAULT_WEIGHTS, pairWeights })!.pValue).toBeGreaterThan(0.99);
+  });
+
+  it("counts only entered rolls from past and current games", () => {
+    const t = tallyEnteredRolls(
+      [{ id: "1:a:0", scoreHistory: [entry([{ pigs: [{ pose: "Trotter" }, { pose: "Snouter" }], points: 15, event: "", entered: true }])] }],
+      { seed: 2, scoreHistory: [entry([{ pigs: [{ pose: "Razorback" }, { pose: "Snouter" }], points: 20, event: "", entered: true }, { pigs: [{ pose: "Razorback" }, { pose: "Razorback" }], points: 20, event: "" }])] }
+    );
+    expect(t).toEqual(tally({ Trotter: 1, Snouter: 2, Razorback: 1 }));
+  });
+
+  it("counts a finished game once it is archived", () => {
+    const scoreHistory = [entry([{ pigs: [{ pose: "Trotter" }, { pose: "Snouter" }], points: 15, event: "", entered: true }])];
+    const current = { seed: 1, scoreHistory };
+    expect(tallyEnteredRolls([], current)).toEqual(tally({ Trotter: 1, Snouter: 1 }));
+    expect(tallyEnteredRolls([{ id: matchKey(current)!, scoreHistory }], current)).toEqual(tally({ Trotter: 1, Snouter: 1 }));
+  });
+
+  it("reads the rolls CSV export and plain tallies", () => {
+    const csv = rollsCsv([
+      entry([
+        { pigs: [{ pose: "Trotter" }, { pose: "Snouter" }], points: 15, event: "x", entered: true },
+        { pigs: [{ pose: "Sider-Left" }, { pose: "Sider-Left" }], points: 0, event: "y", contact: "Piggyback", entered: true },
+        { pigs: [{ pose: "Razorback" }, { pose: "Razorback" }], points: 20, event: "z" },
+      ]),
+    ]);
+    expect(parseTallyCsv(csv)).toEqual(tally({ Trotter: 1, Snouter: 1, Piggyback: 1 }));
+    expect(tallyRolls(parseTallyCsv("outcome,count\nsider-left,30\nRazorback,10\n"))).toBe(20);
+    expect(() => parseTallyCsv("outcome,count\nWingding,3")).toThrow(/unknown outcome/);
+    expect(() => parseTallyCsv("pig_1,pig_2,source\nTrotter,Trotter,app")).toThrow(/no rolls of real pigs/);
+  });
+});
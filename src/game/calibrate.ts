@@ -0,0 +1,269 @@
+// ---------------------------------------------
+// Calibration: fit outcome weights to rolls of real pigs. Pose counts are per
+// pig, contact counts per roll (the same split as OutcomeWeights). The fit
+// gives each outcome a 95% Wilson interval and checks the current weights
+// against the counts with a chi-square goodness-of-fit test.
+// ---------------------------------------------
+
+import { matchKey, matchStart } from "./profiles";
+import { PIG_POSES, poseProbabilities } from "./scoring";
+import type { ArchivedMatch, ContactOutcome, GameState, OutcomeWeights, PigPose, Roll, RollTable } from "./types";
+
+export type OutcomeTally = Record<PigPose | ContactOutcome, number>;
+
+export const CONTACT_OUTCOMES: ContactOutcome[] = ["Makin' Bacon", "Piggyback"];
+const OUTCOMES = [...PIG_POSES, ...CONTACT_OUTCOMES];
+
+// Fitted pose weights add up to this, like DEFAULT_WEIGHTS
+const POSE_TOTAL = 100;
+const Z_95 = 1.959964;
+
+export const emptyTally = (): OutcomeTally => Object.fromEntries(OUTCOMES.map((o) => [o, 0])) as OutcomeTally;
+
+export const tallyPigs = (t: OutcomeTally) => PIG_POSES.reduce((a, p) => a + t[p], 0);
+export const tallyContacts = (t: OutcomeTally) => CONTACT_OUTCOMES.reduce((a, c) => a + t[c], 0);
+export const tallyRolls = (t: OutcomeTally) => tallyPigs(t) / 2 + tallyContacts(t);
+
+export function addRoll(t: OutcomeTally, roll: Pick<Roll, "pigs" | "contact">): OutcomeTally {
+  const next = { ...t };
+  if (roll.contact) next[roll.contact]++;
+  else for (const pig of roll.pigs) next[pig.pose]++;
+  return next;
+}
+
+// Rolls of real pigs (entered in score-keeper mode) from finished games and
+// the current one. A finished game is archived straight away, so the current
+// game only adds its rolls while no result of it is in the archive yet.
+export function tallyEnteredRolls(
+  matches: Pick<ArchivedMatch, "id" | "scoreHistory">[],
+  current?: Pick<GameState, "seed" | "scoreHistory">
+): OutcomeTally {
+  const key = current && matchKey(current);
+  const unarchived = current && !(key && matches.some((m) => matchStart(m.id) === matchStart(key))) ? current.scoreHistory : [];
+  let t = emptyTally();
+  for (const e of [...matches.flatMap((m) => m.scoreHistory), ...unarchived]) {
+    for (const r of e.rolls ?? []) if (r.entered) t = addRoll(t, r);
+  }
+  return t;
+}
+
+// ---------------------------------------------
+// CSV import: either the rolls CSV from Export (pig_1, pig_2, contact and
+// source columns; only `table` rows when there is a source column) or a
+// plain tally with `outcome` (or `pose`) and `count` columns.
+// ---------------------------------------------
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') cell += text[++i];
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += c;
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+const outcomeNamed = (name: string, line: number) => {
+  const found = OUTCOMES.find((o) => o.toLowerCase() === name.trim().toLowerCase());
+  if (!found) throw new Error(`line ${line}: unknown outcome "${name}"`);
+  return found;
+};
+
+export function parseTallyCsv(text: string): OutcomeTally {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) throw new Error("the file is empty");
+  const col = (name: string) => header.findIndex((h) => h.trim().toLowerCase() === name);
+  let t = emptyTally();
+  const [pig1, pig2, contact, source] = [col("pig_1"), col("pig_2"), col("contact"), col("source")];
+  if (pig1 >= 0 && pig2 >= 0) {
+    rows.forEach((r, i) => {
+      if (source >= 0 && r[source]?.trim() !== "table") return;
+      const line = i + 2;
+      const touching = contact >= 0 && r[contact]?.trim() ? outcomeNamed(r[contact], line) : null;
+      if (touching && !(CONTACT_OUTCOMES as string[]).includes(touching)) throw new Error(`line ${line}: "${touching}" is not a contact outcome`);
+      const pose = (name: string | undefined) => {
+        const o = outcomeNamed(name ?? "", line);
+        if (!(PIG_POSES as string[]).includes(o)) throw new Error(`line ${line}: "${o}" is not a pig pose`);
+        return o as PigPose;
+      };
+      t = touching
+        ? addRoll(t, { pigs: [{ pose: "Sider-Left" }, { pose: "Sider-Left" }], contact: touching as ContactOutcome })
+        : addRoll(t, { pigs: [{ pose: pose(r[pig1]) }, { pose: pose(r[pig2]) }] });
+    });
+  } else {
+    const name = col("outcome") >= 0 ? col("outcome") : col("pose");
+    const count = col("count");
+    if (name < 0 || count < 0) throw new Error("expected pig_1 and pig_2 columns, or outcome and count columns");
+    rows.forEach((r, i) => {
+      const n = Number(r[count]);
+      if (!Number.isInteger(n) || n < 0) throw new Error(`line ${i + 2}: count must be a whole number`);
+      t[outcomeNamed(r[name] ?? "", i + 2)] += n;
+    });
+  }
+  if (tallyRolls(t) === 0) throw new Error(source >= 0 ? 'no rolls of real pigs (source "table") in the file' : "no rolls in the file");
+  return t;
+}
+
+// ---------------------------------------------
+// Fit
+// ---------------------------------------------
+
+// 95% Wilson score interval for k successes out of n
+export function wilsonInterval(k: number, n: number, z = Z_95): [number, number] {
+  if (n === 0) return [0, 1];
+  const p = k / n;
+  const denom = 1 + (z * z) / n;
+  const centre = (p + (z * z) / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom;
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
+
+export type FittedOutcome = {
+  outcome: PigPose | ContactOutcome;
+  count: number;
+  share: number; // of pigs for poses, of rolls for contacts
+  interval: [number, number]; // 95% interval for the share
+  weight: number;
+  weightInterval: [number, number];
+  kept: boolean; // contact never observed; the current weight is kept
+};
+
+export type WeightFit = {
+  pigs: number;
+  rolls: number;
+  outcomes: FittedOutcome[];
+  weights: OutcomeWeights;
+};
+
+const round = (x: number) => Math.round(x * 100) / 100;
+
+// Null when the tally has no pig poses to fit. A contact outcome that never
+// came up keeps its current weight (its variant was probably switched off).
+export function fitWeights(t: OutcomeTally, current: OutcomeWeights): WeightFit | null {
+  const pigs = tallyPigs(t);
+  if (pigs === 0) return null;
+  const rolls = tallyRolls(t);
+  const contactShare = tallyContacts(t) / rolls;
+  const currentPoseTotal = PIG_POSES.reduce((a, p) => a + Math.max(0, current[p]), 0) || POSE_TOTAL;
+  // A contact share q becomes weight q / (1 - Q) × pose total, so drawRoll gives it back
+  const contactWeight = (share: number) => (contactShare < 1 ? (share / (1 - contactShare)) * POSE_TOTAL : 0);
+
+  const outcomes: FittedOutcome[] = OUTCOMES.map((outcome) => {
+    const count = t[outcome];
+    const isPose = (PIG_POSES as string[]).includes(outcome);
+    const n = isPose ? pigs : rolls;
+    const interval = wilsonInterval(count, n);
+    const toWeight = isPose ? (share: number) => share * POSE_TOTAL : contactWeight;
+    const kept = !isPose && count === 0;
+    return {
+      outcome,
+      count,
+      share: count / n,
+      interval,
+      weight: kept ? round((Math.max(0, current[outcome]) * POSE_TOTAL) / currentPoseTotal) : round(toWeight(count / n)),
+      weightInterval: [round(toWeight(interval[0])), round(toWeight(interval[1]))],
+      kept,
+    };
+  });
+  const weights = Object.fromEntries(outcomes.map((o) => [o.outcome, o.weight])) as OutcomeWeights;
+  return { pigs, rolls, outcomes, weights };
+}
+
+// ---------------------------------------------
+// Goodness of fit: Pearson's chi-square of the pose counts against the pose
+// probabilities of a weight table, or of the two-pig table when it is on.
+// Contact rolls are left out.
+// ---------------------------------------------
+
+export type GoodnessOfFit = {
+  chiSquare: number;
+  df: number;
+  pValue: number; // chance of a fit at least this bad if the weights were right
+  smallCounts: boolean; // some expected count is under 5; the p-value is rough
+};
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7)
+  const c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Upper regularized incomplete gamma Q(a, x)
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * front);
+  }
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.min(1, front * h);
+}
+
+export const chiSquarePValue = (chiSquare: number, df: number) => (df <= 0 ? 1 : chiSquare === Infinity ? 0 : gammaQ(df / 2, chiSquare / 2));
+
+export function goodnessOfFit(t: OutcomeTally, table: Pick<RollTable, "weights" | "pairWeights">): GoodnessOfFit | null {
+  const pigs = tallyPigs(t);
+  const probabilities = poseProbabilities(table);
+  if (pigs === 0 || PIG_POSES.every((p) => probabilities[p] === 0)) return null;
+  let chiSquare = 0;
+  let categories = 0;
+  let smallCounts = false;
+  for (const pose of PIG_POSES) {
+    const expected = probabilities[pose] * pigs;
+    if (expected === 0) {
+      if (t[pose] > 0) chiSquare = Infinity; // the weights say this pose cannot happen
+      continue;
+    }
+    categories++;
+    if (expected < 5) smallCounts = true;
+    chiSquare += (t[pose] - expected) ** 2 / expected;
+  }
+  const df = categories - 1;
+  return { chiSquare, df, pValue: chiSquarePValue(chiSquare, df), smallCounts };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { BLUNDER_AT, chaseValues, gradeFor, INACCURACY_AT, MAX_REVIEW_TARGET, reviewGame, reviewGameInSlices, solveRace } from "./coach";
+import { DEFAULT_SETTINGS } from "./engine";
+import { rollOdds } from "./odds";
+import { hold, pass, play, roll, started } from "./testHelpers";
+
+describe("solveRace", () => {
+  const race = solveRace(DEFAULT_SETTINGS, 30);
+
+  it("gives the first roller the edge and says to roll on a 1-point turn", () => {
+    expect(race.roll(0, 0, 0)).toBeGreaterThan(0.5);
+    expect(race.roll(0, 0, 0)).toBeLessThan(0.6);
+    expect(race.roll(0, 0, 1)).toBeGreaterThan(race.hold(0, 0, 1));
+  });
+
+  it("keeps rolling when far behind, or a point short of the target", () => {
+    expect(race.roll(0, 29, 15)).toBeGreaterThan(race.hold(0, 29, 15));
+    expect(race.roll(20, 0, 9)).toBeGreaterThan(race.hold(20, 0, 9));
+  });
+});
+
+describe("chaseValues", () => {
+  it("scores a Final Round turn by whether it beats the leader", () => {
+    const pigOutOrContact = rollOdds(DEFAULT_SETTINGS).endTurn;
+    expect(chaseValues(DEFAULT_SETTINGS, 25, 41, 20)).toEqual({ hold: 1, roll: expect.closeTo(1 - pigOutOrContact, 9) });
+    expect(chaseValues(DEFAULT_SETTINGS, 25, 41, 16).hold).toBe(0.5);
+    const behind = chaseValues(DEFAULT_SETTINGS, 25, 41, 5);
+    expect(behind.hold).toBe(0);
+    expect(behind.roll).toBeGreaterThan(0.5);
+  });
+});
+
+describe("reviewGame", () => {
+  it("grades every Roll with points at stake and every Hold", () => {
+    const s = play(
+      started(30),
+      roll("Sider-Left", "Sider-Left"), hold, // Ann banks a single point
+      roll("Trotter", "Razorback"), roll("Trotter", "Snouter"), hold,
+      roll("Snouter", "Snouter"), hold, // Ann reaches 41: Final Round
+      roll("Snouter", "Snouter"), roll("Trotter", "Snouter"), roll("Sider-Left", "Sider-Right"), pass, // Bob rolls on past a win
+    );
+    const review = reviewGame(s.log)!;
+    expect(review.decisions.map((d) => [d.playerId, d.entryIndex, d.afterRolls, d.choice])).toEqual([
+      ["a", 0, 1, "hold"],
+      ["b", 1, 1, "roll"],
+      ["b", 1, 2, "hold"],
+      ["a", 2, 1, "hold"],
+      ["b", 3, 1, "roll"],
+      ["b", 3, 2, "roll"],
+    ]);
+    const [holdAtOne, , , , tied, won] = review.decisions;
+    expect(holdAtOne).toEqual(expect.objectContaining({ best: "roll", score: 0, opponentScore: 0, turnPoints: 1 }));
+    expect(holdAtOne.equityLost).toBeGreaterThan(INACCURACY_AT);
+    expect(tied).toEqual(expect.objectContaining({ opponentScore: 41, turnPoints: 40, holdWin: 1, grade: "blunder" }));
+    expect(won.grade).toBe("blunder");
+    expect(review.players.b).toEqual(expect.objectContaining({ decisions: 4, blunders: 2 }));
+  });
+
+  it("grades each decision with the rules in play when it was made", () => {
+    const bacon = { ...DEFAULT_SETTINGS, makinBacon: true };
+    const s = play(
+      started(30),
+      roll("Trotter", "Razorback"), hold, // Ann holds at 10
+      { type: "set_rules", rules: { makinBacon: true } },
+      roll("Trotter", "Razorback"), hold, // Bob holds at 10 with Makin' Bacon on
+    );
+    const [ann, bob] = reviewGame(s.log)!.decisions;
+    expect(ann.holdWin).toBeCloseTo(solveRace(DEFAULT_SETTINGS, 30).hold(0, 0, 10), 9);
+    expect(bob.holdWin).toBeCloseTo(solveRace(bacon, 30).hold(0, 10, 10), 9);
+    expect(bob.holdWin).not.toBeCloseTo(solveRace(DEFAULT_SETTINGS, 30).hold(0, 10, 10), 3);
+  });
+
+  it("can be solved in slices and cancelled", async () => {
+    const s = play(started(30), roll("Trotter", "Razorback"), roll("Snouter", "Sider-Left"), hold);
+    expect(await reviewGameInSlices(s.log, undefined, 1)).toEqual(reviewGame(s.log));
+    const controller = new AbortController();
+    const review = reviewGameInSlices(s.log, controller.signal, 1);
+    controller.abort();
+    expect(await review).toBeNull();
+  });
+
+  it("returns null without a game or for a target too large to solve", () => {
+    expect(reviewGame([])).toBeNull();
+    expect(reviewGame(play(started(MAX_REVIEW_TARGET + 1), roll("Trotter", "Trotter"), hold).log)).toBeNull();
+  });
+
+  it("grades by win chance lost", () => {
+    expect(gradeFor(0)).toBe("good");
+    expect(gradeFor(INACCURACY_AT)).toBe("inaccuracy");
+    expect(gradeFor(BLUNDER_AT)).toBe("blunder");
+  });
+});
@@ -0,0 +1,337 @@
+// ---------------------------------------------
+// Decision coach: a game review for pigs. Solves the win-probability-maximising
+// Roll/Hold policy for the game's target, weights and rules, then grades every
+// Roll and Hold in a game's log by how much win chance it gave away.
+//
+// The solver plays the roller against one opponent (with more players, the
+// strongest one): first to bank the target ends the race, and the other then
+// gets a single Final Round turn to beat them. Ties count as a coin flip.
+// Final Round chases are graded on that one turn; sudden-death overtime is not
+// graded. Rules changed mid-game are in the log, so every decision is graded
+// with the rules in play when it was made.
+// ---------------------------------------------
+
+import { reduceAction } from "./engine";
+import { resolveLog } from "./log";
+import { reachTable, rollOdds } from "./odds";
+import type { RollOdds } from "./odds";
+import type { GameSettings, GameState, LogEntry } from "./types";
+
+export type DecisionGrade = "good" | "inaccuracy" | "blunder";
+export type Choice = "roll" | "hold";
+
+// Win chance given away before a decision stops being "good" / becomes a blunder
+export const INACCURACY_AT = 0.02;
+export const BLUNDER_AT = 0.08;
+
+// Largest target a review solves; the solve time grows with the size of the
+// table (see solveRace) and, with Makin' Bacon on, with the number of passes
+export const MAX_REVIEW_TARGET = 150;
+
+export type CoachedDecision = {
+  entryIndex: number; // index in scoreHistory of the turn this decision belongs to
+  afterRolls: number; // rolls already made this turn (the hold comes after the last one)
+  playerId: string;
+  choice: Choice;
+  best: Choice;
+  score: number; // banked before the turn
+  opponentScore: number; // strongest opponent, or the score to beat in the Final Round
+  turnPoints: number;
+  rollWin: number; // win chance after rolling, playing on perfectly
+  holdWin: number; // win chance after holding
+  equityLost: number; // win chance given away by `choice`, 0..1
+  grade: DecisionGrade;
+};
+
+export type PlayerReview = {
+  decisions: number;
+  inaccuracies: number;
+  blunders: number;
+  equityLost: number; // summed over all decisions
+};
+
+export type GameReview = {
+  decisions: CoachedDecision[];
+  players: Record<string, PlayerReview>;
+};
+
+export function gradeFor(equityLost: number): DecisionGrade {
+  if (equityLost >= BLUNDER_AT) return "blunder";
+  if (equityLost >= INACCURACY_AT) return "inaccuracy";
+  return "good";
+}
+
+// ---------------------------------------------
+// Solver
+// ---------------------------------------------
+
+type CoachSettings = Pick<GameSettings, "weights" | "pairWeights" | "makinBacon" | "piggyback" | "ruleSet">;
+
+type TurnOdds = {
+  steps: [number, number][]; // [points, probability] of rolls that keep the turn going
+  stall: number; // rolls that keep the turn going without points
+  pigOut: number;
+  makinBacon: number;
+  piggyback: number;
+  bankPigOut: boolean; // a Pig Out banks the turn (forgiving rule sets)
+};
+
+function turnOdds(odds: RollOdds, settings: CoachSettings): TurnOdds {
+  const byPoints = new Map<number, number>();
+  let stall = 0;
+  for (const o of odds.outcomes) {
+    if (o.endsTurn) continue;
+    if (o.points <= 0) stall += o.p;
+    else byPoints.set(o.points, (byPoints.get(o.points) ?? 0) + o.p);
+  }
+  return {
+    steps: [...byPoints],
+    stall,
+    pigOut: odds.pigOut,
+    makinBacon: odds.makinBacon,
+    piggyback: odds.piggyback,
+    bankPigOut: settings.ruleSet.pigOut === "bank_turn",
+  };
+}
+
+// Win chance of one more roll, given the value of every turn total it can
+// lead to and the value of the turn ending on a Pig Out / Makin' Bacon
+function rollValue(t: TurnOdds, next: (points: number) => number, pigOut: number, makinBacon: number): number {
+  if (t.stall >= 1) return pigOut;
+  let v = t.pigOut * pigOut + t.makinBacon * makinBacon; // Piggyback: knocked out, worth 0
+  for (const [points, p] of t.steps) v += p * next(points);
+  return v / (1 - t.stall);
+}
+
+export type RaceSolution = {
+  target: number;
+  // Win chance of holding / rolling for the roller with `score` banked and
+  // `turnPoints` at stake, against an opponent on `opponent` (both below target)
+  hold: (score: number, opponent: number, turnPoints: number) => number;
+  roll: (score: number, opponent: number, turnPoints: number) => number;
+};
+
+const EPSILON = 1e-7;
+
+// Run a generator that yields between slices of work to the end
+function runToEnd<T>(steps: Generator<void, T>): T {
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+// The roller's win chance for every (banked a, opponent's banked b, turn
+// points k), both players below the target. Holding always leads to a higher
+// banked total a + b, so totals are solved from the top down. Within a total
+// the only loop is a turn ending without points, which hands (a, b) over to
+// (b, a): each such pair is solved together as a one-dimensional fixed point.
+// Makin' Bacon drops back to a lower total, so with it switched on the whole
+// pass repeats until nothing moves.
+//
+// The table holds target × (top − a) cells for every banked a below the
+// target, about target² × (top − target / 2) in all. One pass visits each
+// cell a few times, so the solve takes time in proportion to the table size
+// times the number of passes: one without Makin' Bacon, several with it.
+export function solveRace(settings: CoachSettings, target: number): RaceSolution {
+  return runToEnd(solveRaceSteps(settings, target));
+}
+
+// solveRace, yielding after each pair of positions
+function* solveRaceSteps(settings: CoachSettings, target: number): Generator<void, RaceSolution> {
+  const odds = rollOdds(settings);
+  const t = turnOdds(odds, settings);
+  // Turn totals past the target keep counting (a bigger lead is harder to
+  // beat in the Final Round) up to `top`, where the roller is made to hold
+  const top = target + Math.min(target, 100);
+  const reach = reachTable(odds, top + 1);
+  // Chance the opponent's Final Round turn beats a lead (a tie is half a win)
+  const finalTurn = reach.map((r, lead) => (lead > top ? 0 : reach[lead + 1] + 0.5 * (r - reach[lead + 1])));
+
+  // Ragged table: cell (a, b) holds turn points 0 .. top - a - 1
+  const rowStart: number[] = [];
+  let size = 0;
+  for (let a = 0; a < target; a++) {
+    rowStart.push(size);
+    size += target * (top - a);
+  }
+  const win = new Float64Array(size).fill(0.5);
+  const at = (a: number, b: number, k: number) => rowStart[a] + b * (top - a) + k;
+
+  const hold = (a: number, b: number, k: number) => {
+    const total = a + k;
+    return total >= target ? 1 - finalTurn[Math.min(top + 1, total - b)] : 1 - win[at(b, total, 0)];
+  };
+  const roll = (a: number, b: number, k: number) => {
+    const row = at(a, b, 0);
+    return rollValue(
+      t,
+      (points) => (a + k + points >= top ? hold(a, b, k + points) : win[row + k + points]),
+      t.bankPigOut && k > 0 ? hold(a, b, k) : 1 - win[at(b, a, 0)],
+      1 - win[at(b, 0, 0)]
+    );
+  };
+
+  // Fill in the turn of (a, b) from the top down for a given value of the
+  // turn ending empty-handed; returns the value at the start of the turn
+  const go = 1 / (1 - Math.min(t.stall, 0.999999));
+  const turn = (a: number, b: number, emptyHanded: number): number => {
+    const row = at(a, b, 0);
+    const len = top - a;
+    const bacon = a === 0 ? emptyHanded : 1 - win[at(b, 0, 0)];
+    for (let k = len - 1; k >= 0; k--) {
+      const holding = k > 0 ? hold(a, b, k) : 0;
+      let v = t.pigOut * (t.bankPigOut && k > 0 ? holding : emptyHanded) + t.makinBacon * bacon;
+      for (const [points, p] of t.steps) v += p * (k + points >= len ? hold(a, b, k + points) : win[row + k + points]);
+      v = t.stall >= 1 ? t.pigOut * emptyHanded : v * go;
+      win[row + k] = k > 0 ? Math.max(v, holding) : v;
+    }
+    return win[row];
+  };
+
+  // x = value of (a, b) at the start of a turn; solve x = g(x) by secant steps
+  const solvePair = (a: number, b: number) => {
+    const g = (x: number) => turn(a, b, 1 - (a === b ? x : turn(b, a, 1 - x)));
+    let x0 = win[at(a, b, 0)];
+    let h0 = g(x0) - x0;
+    let x1 = Math.min(1, Math.max(0, x0 + h0));
+    for (let i = 0; i < 50 && Math.abs(h0) > EPSILON; i++) {
+      const h1 = g(x1) - x1;
+      if (Math.abs(h1) < EPSILON || h1 === h0) break;
+      const x2 = Math.min(1, Math.max(0, x1 - (h1 * (x1 - x0)) / (h1 - h0)));
+      [x0, h0, x1] = [x1, h1, x2];
+    }
+    g(x1); // leave both turns filled in for the final x
+  };
+
+  for (let pass = 0; pass < 50; pass++) {
+    let delta = 0;
+    for (let s = 2 * target - 2; s >= 0; s--) {
+      for (let a = Math.max(0, s - target + 1); a <= s - a; a++) {
+        const before = win[at(a, s - a, 0)];
+        solvePair(a, s - a);
+        delta = Math.max(delta, Math.abs(win[at(a, s - a, 0)] - before));
+        yield;
+      }
+    }
+    if (t.makinBacon === 0 || delta < EPSILON) break;
+  }
+
+  return { target, hold, roll };
+}
+
+// Win chance of holding / rolling on a Final Round turn that must beat `toBeat`
+export function chaseValues(settings: CoachSettings, score: number, toBeat: number, turnPoints: number): Record<Choice, number> {
+  const t = turnOdds(rollOdds(settings), settings);
+  const hold = (k: number) => (score + k > toBeat ? 1 : score + k === toBeat ? 0.5 : 0);
+  const enough = Math.max(turnPoints, toBeat - score + 1); // holding here wins outright
+  const best = new Array<number>(enough + 1).fill(1);
+  const roll = (k: number) =>
+    rollValue(t, (points) => best[Math.min(enough, k + points)], t.bankPigOut && k > 0 ? hold(k) : hold(0), 0);
+  for (let k = enough - 1; k >= turnPoints; k--) best[k] = k > 0 ? Math.max(roll(k), hold(k)) : roll(k);
+  return { roll: roll(turnPoints), hold: hold(turnPoints) };
+}
+
+// ---------------------------------------------
+// Review
+// ---------------------------------------------
+
+// Solutions already solved during a review, by target and rules
+type SolutionCache = Map<string, RaceSolution>;
+
+const solutionKey = (s: GameState) => {
+  const { weights, pairWeights, makinBacon, piggyback, ruleSet } = s.settings;
+  return JSON.stringify([s.target, weights, pairWeights, makinBacon, piggyback, ruleSet]);
+};
+
+function* decisionAt(s: GameState, choice: Choice, solutions: SolutionCache): Generator<void, CoachedDecision | null> {
+  const me = s.players[s.currentIndex];
+  if (!me || s.overtime > 0) return null;
+  const k = s.turnPoints;
+  let values: Record<Choice, number>;
+  let opponentScore: number;
+  if (s.finalRound) {
+    opponentScore = s.finalLeaderScore;
+    values = chaseValues(s.settings, me.score, opponentScore, k);
+  } else {
+    const others = s.players.filter((p) => p.id !== me.id && !p.eliminated);
+    if (others.length === 0) return null;
+    opponentScore = Math.max(...others.map((p) => p.score));
+    const key = solutionKey(s);
+    let solution = solutions.get(key);
+    if (!solution) {
+      solution = yield* solveRaceSteps(s.settings, s.target);
+      solutions.set(key, solution);
+    }
+    values = { roll: solution.roll(me.score, opponentScore, k), hold: solution.hold(me.score, opponentScore, k) };
+  }
+  const best: Choice = values.hold > values.roll ? "hold" : "roll";
+  const equityLost = Math.max(0, values[best] - values[choice]);
+  return {
+    entryIndex: s.scoreHistory.length,
+    afterRolls: s.history.length,
+    playerId: me.id,
+    choice,
+    best,
+    score: me.score,
+    opponentScore,
+    turnPoints: k,
+    rollWin: values.roll,
+    holdWin: values.hold,
+    equityLost,
+    grade: gradeFor(equityLost),
+  };
+}
+
+// Replay a game's log and grade every Roll made with points at stake (the
+// first roll of a turn is not a choice) and every Hold. Null for a log
+// without a new_game entry or a target too large to solve.
+export function reviewGame(log: LogEntry[]): GameReview | null {
+  return runToEnd(reviewSteps(log));
+}
+
+// The same review, solved in slices of about `sliceMs` with a macrotask in
+// between, so the page keeps painting and taking clicks. Also null once
+// `signal` is aborted.
+export async function reviewGameInSlices(log: LogEntry[], signal?: AbortSignal, sliceMs = 16): Promise<GameReview | null> {
+  const steps = reviewSteps(log);
+  for (;;) {
+    const sliceEnd = Date.now() + sliceMs;
+    for (;;) {
+      const step = steps.next();
+      if (step.done) return signal?.aborted ? null : step.value;
+      if (Date.now() >= sliceEnd) break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (signal?.aborted) return null;
+  }
+}
+
+function* reviewSteps(log: LogEntry[]): Generator<void, GameReview | null> {
+  const resolved = resolveLog(log);
+  if (!resolved) return null;
+  let s = resolved.base;
+  const solutions: SolutionCache = new Map();
+  const decisions: CoachedDecision[] = [];
+  const players: Record<string, PlayerReview> = {};
+  for (const action of resolved.applied) {
+    const choice: Choice | null =
+      action.type === "hold" ? "hold" : action.type === "roll" && s.turnPoints > 0 ? "roll" : null;
+    const next = reduceAction(s, action);
+    if (choice && next !== s) {
+      if (!s.finalRound && s.target > MAX_REVIEW_TARGET) return null;
+      const d = yield* decisionAt(s, choice, solutions);
+      if (d) {
+        decisions.push(d);
+        const p = players[d.playerId] ?? { decisions: 0, inaccuracies: 0, blunders: 0, equityLost: 0 };
+        players[d.playerId] = p;
+        p.decisions++;
+        if (d.grade === "inaccuracy") p.inaccuracies++;
+        if (d.grade === "blunder") p.blunders++;
+        p.equityLost += d.equityLost;
+      }
+    }
+    s = next;
+  }
+  return { decisions, players };
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, createInitialState, getWinner, getWinners, isFinalDone, isGameOver, redo, undo } from "./engine";
+import type { GameAction, GameState, PigPose } from "./types";
+
+const players = (n: number) =>
+  Array.from({ length: n }, (_, i) => ({ id: `p${i}`, name: `P${i}`, score: 0 }));
+
+const started = (n = 3, target = 100): GameState =>
+  applyAction(createInitialState(players(n), target), { type: "start" });
+
+const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+const hold: GameAction = { type: "hold", timestamp: 1 };
+const pass: GameAction = { type: "pass_pigs", timestamp: 1 };
+const pigOut = roll("Sider-Left", "Sider-Right");
+
+// Give a player a banked score without playing it out
+const withScores = (s: GameState, scores: number[]): GameState => ({
+  ...s,
+  players: s.players.map((p, i) => ({ ...p, score: scores[i] })),
+});
+
+describe("hold", () => {
+  it("banks turn points and passes to the next player", () => {
+    const s = play(started(), roll("Snouter", "Sider-Left"), hold);
+    expect(s.players[0].score).toBe(10);
+    expect(s.currentIndex).toBe(1);
+    expect(s.turnPoints).toBe(0);
+    expect(s.history).toEqual([]);
+    expect(s.scoreHistory).toHaveLength(1);
+    expect(s.scoreHistory[0]).toMatchObject({ action: "hold", previousScore: 0, newScore: 10, pointsEarned: 10 });
+  });
+
+  it("triggers the Final Round when a player reaches the target", () => {
+    const s = play(withScores(started(3, 100), [95, 0, 0]), roll("Snouter", "Sider-Left"), hold);
+    expect(s.finalRound).toBe(true);
+    expect(s.finalLeaderIndex).toBe(0);
+    expect(s.finalLeaderScore).toBe(105);
+    expect(s.finalTurns).toEqual({ p0: true, p1: false, p2: false });
+    expect(isFinalDone(s)).toBe(false);
+    expect(getWinner(s)).toBeNull();
+  });
+
+  it("marks each Final Round turn as used and raises the score to beat", () => {
+    let s = play(withScores(started(3, 100), [95, 90, 0]), roll("Snouter", "Sider-Left"), hold);
+    s = play(s, roll("Leaning Jowler", "Leaning Jowler"), hold);
+    expect(s.finalTurns).toEqual({ p0: true, p1: true, p2: false });
+    expect(s.finalLeaderScore).toBe(150);
+    expect(s.currentIndex).toBe(2);
+  });
+
+  it("is ignored with no turn points or while the pigs must be passed", () => {
+    const s = started();
+    expect(applyAction(s, hold)).toBe(s);
+    const out = play(s, pigOut);
+    expect(applyAction(out, hold)).toBe(out);
+  });
+});
+
+describe("passThePigs", () => {
+  it("loses the turn points after a Pig Out", () => {
+    const s = play(started(), roll("Snouter", "Sider-Left"), pigOut);
+    expect(s.needsToPassPigs).toBe(true);
+    const next = applyAction(s, pass);
+    expect(next.players[0].score).toBe(0);
+    expect(next.currentIndex).toBe(1);
+    expect(next.needsToPassPigs).toBe(false);
+    expect(next.scoreHistory[0]).toMatchObject({ action: "pass_pigs", pointsEarned: 0 });
+  });
+
+  it("uses up a Final Round turn and ends the game after the last one", () => {
+    let s = play(withScores(started(3, 100), [95, 0, 0]), roll("Snouter", "Sider-Left"), hold);
+    s = play(s, pigOut, pass);
+    expect(s.finalTurns).toEqual({ p0: true, p1: true, p2: false });
+    s = play(s, pigOut, pass);
+    expect(isFinalDone(s)).toBe(true);
+    expect(getWinner(s)?.id).toBe("p0");
+    // Nothing happens once the game is over
+    expect(applyAction(s, roll("Snouter", "Snouter"))).toBe(s);
+  });
+
+  it("bumps the turn number when play wraps back to the first player", () => {
+    const s = play(started(2), pigOut, pass, pigOut, pass);
+    expect(s.currentIndex).toBe(0);
+    expect(s.currentTurnNumber).toBe(2);
+  });
+});
+
+describe("contact variants", () => {
+  const variants = (s: GameState): GameState => ({ ...s, settings: { ...s.settings, makinBacon: true, piggyback: true } });
+
+  it("Makin' Bacon wipes the banked score", () => {
+    const s = play(variants(withScores(started(), [40, 0, 0])), { type: "roll", pigs: ["Snouter", "Trotter"], contact: "Makin' Bacon" }, pass);
+    expect(s.players[0].score).toBe(0);
+    expect(s.scoreHistory[0]).toMatchObject({ action: "makin_bacon", previousScore: 40, newScore: 0, pointsEarned: -40 });
+  });
+
+  it("Piggyback knocks the player out and skips them afterwards", () => {
+    let s = play(variants(started()), roll("Trotter", "Sider-Left"), hold);
+    s = play(s, { type: "roll", pigs: ["Snouter", "Trotter"], contact: "Piggyback" }, pass);
+    expect(s.players[1].eliminated).toBe(true);
+    s = play(s, pigOut, pass);
+    expect(s.currentIndex).toBe(0);
+  });
+
+  it("is ignored when the variant is switched off", () => {
+    const s = play(started(), { type: "roll", pigs: ["Snouter", "Sider-Left"], contact: "Makin' Bacon" });
+    expect(s.turnPoints).toBe(10);
+    expect(s.needsToPassPigs).toBe(false);
+  });
+});
+
+describe("tie after the Final Round", () => {
+  // p0 triggers the Final Round at 105, p1 ties it, p2 pigs out
+  const tied = (tieBreak: GameState["settings"]["tieBreak"]) => {
+    const s = withScores(started(3, 100), [95, 100, 0]);
+    return play({ ...s, settings: { ...s.settings, tieBreak } }, roll("Snouter", "Sider-Left"), hold, roll("Trotter", "Sider-Left"), hold, pigOut, pass);
+  };
+
+  it("sends the tied players into sudden-death overtime", () => {
+    const s = tied("sudden_death");
+    expect(s.overtime).toBe(1);
+    expect(isGameOver(s)).toBe(false);
+    expect(s.finalTurns).toEqual({ p0: false, p1: false, p2: true });
+    expect(s.currentIndex).toBe(0);
+  });
+
+  it("skips players who are not tied and repeats while the tie holds", () => {
+    let s = play(tied("sudden_death"), pigOut, pass);
+    expect(s.currentIndex).toBe(1);
+    s = play(s, pigOut, pass);
+    expect(s.overtime).toBe(2);
+    expect(s.currentIndex).toBe(0);
+  });
+
+  it("ends as soon as one tied player leads", () => {
+    const s = play(tied("sudden_death"), roll("Trotter", "Sider-Left"), hold, pigOut, pass);
+    expect(s.overtime).toBe(1);
+    expect(getWinner(s)?.id).toBe("p0");
+    expect(s.players[0].score).toBe(110);
+  });
+
+  it("declares a shared win when the group prefers it", () => {
+    const s = tied("shared");
+    expect(s.overtime).toBe(0);
+    expect(isGameOver(s)).toBe(true);
+    expect(getWinners(s).map((p) => p.id)).toEqual(["p0", "p1"]);
+    expect(getWinner(s)).toBeNull();
+  });
+});
+
+describe("undo / redo", () => {
+  it("rebuilds the previous state from the log and can redo it", () => {
+    const before = play(started(), roll("Snouter", "Sider-Left"));
+    const after = applyAction(before, hold);
+    const undone = undo(after);
+    expect(undone.players[0].score).toBe(0);
+    expect(undone.turnPoints).toBe(10);
+    expect(undone.log[undone.log.length - 1]).toEqual({ type: "undo" });
+    expect(redo(undone).players[0].score).toBe(10);
+  });
+
+  it("keeps rule changes in the log, so undo does not re-score earlier rolls", () => {
+    const bacon = { ...roll("Sider-Left", "Sider-Left"), contact: "Makin' Bacon" } as GameAction;
+    const s = play(started(), { type: "set_rules", rules: { makinBacon: true } }, roll("Snouter", "Snouter"), hold, bacon, pass);
+    expect(s.players[1].score).toBe(0);
+    const later = play(s, { type: "set_rules", rules: { makinBacon: false } }, roll("Trotter", "Trotter"));
+    const undone = undo(later);
+    expect(undone.scoreHistory[1].action).toBe("makin_bacon");
+    expect(undone.settings.makinBacon).toBe(false);
+    expect(undo(undone).settings.makinBacon).toBe(true);
+  });
+});
+
+describe("entered rolls", () => {
+  it("score like drawn rolls, keep the seeded generator where it was and feed the history", () => {
+    const s = started();
+    const entered = play(s, { type: "roll", pigs: ["Trotter", "Trotter"], entered: true }, hold);
+    expect(entered.rngState).toBe(s.rngState);
+    expect(entered.players[0].score).toBe(20);
+    expect(entered.scoreHistory[0].rolls).toEqual([{ pigs: [{ pose: "Trotter" }, { pose: "Trotter" }], points: 20, event: expect.any(String), entered: true }]);
+  });
+
+  it("refuse a contact that is switched off instead of scoring its placeholder poses", () => {
+    const s = started();
+    expect(play(s, { type: "roll", pigs: ["Sider-Left", "Sider-Left"], contact: "Piggyback", entered: true })).toBe(s);
+  });
+});
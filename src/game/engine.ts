@@ -0,0 +1,372 @@
+// ---------------------------------------------
+// Pass the Pigs — pure rules engine
+// (state, action) → next state. No React, no timers, no Math.random:
+// rolls arrive with their poses already drawn (see drawSeededRoll).
+// ---------------------------------------------
+
+import { SIMPLIFIED_CLASSIC } from "./rules";
+import { SCHEMA_VERSION } from "./schema";
+import { appendToLog, canRedo, canUndo, resolveLog } from "./log";
+import { createRng, normalizeSeed } from "./rng";
+import { DEFAULT_WEIGHTS, drawRoll, isContactEnabled, scoreRoll } from "./scoring";
+import type { GameAction, GameRules, GameSettings, GameState, LogEntry, Player, Roll, ScoreEntry } from "./types";
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  weights: { ...DEFAULT_WEIGHTS },
+  pairWeights: null,
+  ruleSet: SIMPLIFIED_CLASSIC,
+  makinBacon: false,
+  piggyback: false,
+  confettiOnWin: true,
+  confettiOnSpecialRolls: true,
+  showRollHints: true,
+  soundEffects: true,
+  showPoseBadges: false,
+  fastRollMode: false,
+  botSpeed: "normal",
+  tieBreak: "sudden_death",
+  fairDice: false,
+  scoreKeeper: false,
+};
+
+export const GAME_RULE_KEYS: (keyof GameRules)[] = ["weights", "pairWeights", "ruleSet", "makinBacon", "piggyback", "tieBreak"];
+
+// Targets below 10 (or not numbers) become 10
+export const clampTarget = (target: number) => Math.max(10, target || 0);
+
+// The game-rule part of a settings object
+export function gameRules(settings: GameSettings): GameRules {
+  return Object.fromEntries(GAME_RULE_KEYS.map((k) => [k, settings[k]])) as GameRules;
+}
+
+export function createInitialState(players: Player[], target = 100, settings: GameSettings = DEFAULT_SETTINGS, seed = 0): GameState {
+  const base: GameState = {
+    schemaVersion: SCHEMA_VERSION,
+    started: false,
+    target,
+    players: players.map((p) => ({ ...p })),
+    currentIndex: 0,
+    turnPoints: 0,
+    history: [],
+    scoreHistory: [],
+    currentTurnNumber: 1,
+    settings: { ...settings, weights: { ...settings.weights } },
+    finalRound: false,
+    finalLeaderIndex: null,
+    finalLeaderScore: 0,
+    finalTurns: null,
+    overtime: 0,
+    needsToPassPigs: false,
+    seed: normalizeSeed(seed),
+    rngState: normalizeSeed(seed),
+    log: [],
+  };
+  return { ...base, log: [{ type: "new_game", state: base }] };
+}
+
+// Draw the next roll from the game's own seeded RNG. The returned action
+// carries the advanced generator state, so applying it moves the RNG on.
+export function drawSeededRoll(s: GameState): Extract<GameAction, { type: "roll" }> {
+  const rng = createRng(s.rngState);
+  const { pigs, contact } = drawRoll(s.settings, rng.random);
+  return contact
+    ? { type: "roll", pigs, contact, rngState: rng.state }
+    : { type: "roll", pigs, rngState: rng.state };
+}
+
+// True once every player has used their Final Round turn
+export function isFinalDone(s: GameState): boolean {
+  return Boolean(s.finalRound && s.finalTurns && Object.values(s.finalTurns).every(Boolean));
+}
+
+// Players still in the game (not knocked out by a Piggyback)
+export function activePlayers(s: GameState): Player[] {
+  return s.players.filter((p) => !p.eliminated);
+}
+
+// The game ends when the Final Round is complete, or when Piggybacks have
+// knocked out everyone but one player.
+export function isGameOver(s: GameState): boolean {
+  if (isFinalDone(s)) return true;
+  const active = activePlayers(s).length;
+  return active === 0 || (s.players.length > 1 && active === 1);
+}
+
+// Active players sharing the top score
+export function leaders(s: GameState): Player[] {
+  const active = activePlayers(s);
+  const best = Math.max(...active.map((p) => p.score));
+  return active.filter((p) => p.score === best);
+}
+
+// Everyone who won: one player, or several when a tie is shared
+// (Settings → tie-break). Empty while the game is still going.
+export function getWinners(s: GameState): Player[] {
+  return isGameOver(s) ? leaders(s) : [];
+}
+
+// The single winner, or null while playing or after a shared win
+export function getWinner(s: GameState): Player | null {
+  const winners = getWinners(s);
+  return winners.length === 1 ? winners[0] : null;
+}
+
+// Players still in contention during sudden-death overtime
+export function overtimePlayers(s: GameState): Player[] {
+  if (s.overtime === 0 || !s.finalTurns) return [];
+  return s.players.filter((p) => s.finalTurns![p.id] === false);
+}
+
+// Players who sit out the next turn: knocked out, or not tied in overtime
+function sitsOut(s: GameState, p: Player): boolean {
+  return Boolean(p.eliminated || (s.overtime > 0 && s.finalTurns?.[p.id]));
+}
+
+// Hand the pigs to the next player still in the game, bumping the turn
+// counter after a full lap
+function advanceTurn(s: GameState, players: Player[] = s.players): Pick<GameState, "currentIndex" | "currentTurnNumber" | "turnPoints" | "history" | "needsToPassPigs"> {
+  let nextIndex = (s.currentIndex + 1) % players.length;
+  for (let i = 0; i < players.length && sitsOut(s, players[nextIndex]); i++) {
+    nextIndex = (nextIndex + 1) % players.length;
+  }
+  return {
+    currentIndex: nextIndex,
+    currentTurnNumber: nextIndex <= s.currentIndex ? s.currentTurnNumber + 1 : s.currentTurnNumber,
+    turnPoints: 0,
+    history: [],
+    needsToPassPigs: false,
+  };
+}
+
+function applyRoll(s: GameState, action: Extract<GameAction, { type: "roll" }>): GameState {
+  const [a, b] = action.pigs;
+  const rngState = action.rngState ?? s.rngState; // entered rolls leave the generator alone
+  // Contact outcomes only count when their variant is switched on
+  const contact = action.contact && isContactEnabled(action.contact, s.settings) ? action.contact : undefined;
+  const { points, event, endsTurn } = scoreRoll(a, b, contact, s.settings.ruleSet);
+  const roll: Roll = { pigs: [{ pose: a }, { pose: b }], points, event };
+  if (contact) roll.contact = contact;
+  if (action.proof) roll.proof = action.proof;
+  if (action.entered) roll.entered = true;
+  const history = [...s.history, roll];
+  if (!endsTurn) {
+    return { ...s, history, rngState, turnPoints: s.turnPoints + points };
+  }
+  // Pig Out / Makin' Bacon / Piggyback - player needs to pass the pigs to continue
+  return { ...s, history, rngState, needsToPassPigs: true };
+}
+
+function applyPassPigs(s: GameState, timestamp: number): GameState {
+  const currentPlayer = s.players[s.currentIndex];
+  const contact = s.history[s.history.length - 1]?.contact;
+  // Rule sets with a forgiving Pig Out bank the turn as if the player held
+  if (!contact && s.settings.ruleSet.pigOut === "bank_turn" && s.turnPoints > 0) {
+    return bankTurn(s, timestamp, 'pass_pigs');
+  }
+  let finalTurns = s.finalTurns ? { ...s.finalTurns } : null;
+  if (s.finalRound && finalTurns) {
+    finalTurns[currentPlayer.id] = true; // used their last chance
+  }
+
+  // Makin' Bacon wipes the banked score; Piggyback knocks the player out
+  const newScore = contact === "Makin' Bacon" ? 0 : currentPlayer.score;
+  const players = s.players.map((p, i) =>
+    i === s.currentIndex
+      ? { ...p, score: newScore, ...(contact === "Piggyback" ? { eliminated: true } : {}) }
+      : p
+  );
+
+  // Record score change (nothing earned from passing pigs)
+  const scoreEntry: ScoreEntry = {
+    playerId: currentPlayer.id,
+    playerName: currentPlayer.name,
+    turnNumber: s.currentTurnNumber,
+    previousScore: currentPlayer.score,
+    newScore,
+    pointsEarned: newScore - currentPlayer.score,
+    action: contact === "Makin' Bacon" ? 'makin_bacon' : contact === "Piggyback" ? 'piggyback' : 'pass_pigs',
+    timestamp,
+    rolls: s.history,
+  };
+
+  return settleFinalRound(s, {
+    ...s,
+    ...advanceTurn(s, players),
+    players,
+    finalTurns,
+    scoreHistory: [...s.scoreHistory, scoreEntry],
+  });
+}
+
+function bankTurn(s: GameState, timestamp: number, action: ScoreEntry["action"]): GameState {
+  // Bank points
+  const players = s.players.map((p, i) =>
+    i === s.currentIndex ? { ...p, score: p.score + s.turnPoints } : p
+  );
+  const me = players[s.currentIndex];
+  const newScore = me.score;
+
+  // Record score change
+  const scoreEntry: ScoreEntry = {
+    playerId: me.id,
+    playerName: me.name,
+    turnNumber: s.currentTurnNumber,
+    previousScore: s.players[s.currentIndex].score,
+    newScore,
+    pointsEarned: s.turnPoints,
+    action,
+    timestamp,
+    rolls: s.history,
+  };
+  const banked = {
+    ...s,
+    ...advanceTurn(s),
+    players,
+    scoreHistory: [...s.scoreHistory, scoreEntry],
+  };
+
+  // If not yet in final round and player reached target, trigger final round
+  if (!s.finalRound && newScore >= s.target) {
+    const turns: Record<string, boolean> = {};
+    for (const p of players) turns[p.id] = Boolean(p.eliminated); // knocked-out players get no turn
+    turns[me.id] = true; // the triggering player does not get another chance
+    return {
+      ...banked,
+      finalRound: true,
+      finalLeaderIndex: s.currentIndex,
+      finalLeaderScore: newScore,
+      finalTurns: turns,
+    };
+  }
+
+  // Already in final round: bank, mark this player's final turn as used
+  if (s.finalRound && s.finalTurns) {
+    return settleFinalRound(s, {
+      ...banked,
+      finalTurns: { ...s.finalTurns, [me.id]: true },
+      finalLeaderScore: Math.max(s.finalLeaderScore, newScore),
+    });
+  }
+
+  // Normal hold (no final round yet and below target)
+  return banked;
+}
+
+// Once every Final Round (or overtime) turn is used, a tie for the lead goes
+// to sudden death: only the tied players roll again, one turn each, until one
+// of them leads, in seat order after the player who just finished. With a
+// shared tie-break the game simply ends.
+function settleFinalRound(prev: GameState, s: GameState): GameState {
+  if (!isFinalDone(s) || s.settings.tieBreak === "shared") return s;
+  const tied = new Set(leaders(s).map((p) => p.id));
+  if (tied.size < 2) return s;
+  const finalTurns: Record<string, boolean> = {};
+  for (const p of s.players) finalTurns[p.id] = !tied.has(p.id);
+  let currentIndex = (prev.currentIndex + 1) % s.players.length;
+  while (!tied.has(s.players[currentIndex].id)) currentIndex = (currentIndex + 1) % s.players.length;
+  return {
+    ...s,
+    finalTurns,
+    overtime: s.overtime + 1,
+    currentIndex,
+    currentTurnNumber: currentIndex <= prev.currentIndex ? prev.currentTurnNumber + 1 : prev.currentTurnNumber,
+  };
+}
+
+// Setup and player edits. Allowed at any time, like the original UI.
+function applySetup(s: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "start":
+      return s.started ? s : { ...s, started: true };
+    case "add_player":
+      return { ...s, players: [...s.players, { ...action.player }] };
+    case "remove_player":
+      if (s.players.length <= 2) return s;
+      return { ...s, players: s.players.filter((p) => p.id !== action.playerId), currentIndex: 0 };
+    case "rename_player":
+      return { ...s, players: s.players.map((p) => (p.id === action.playerId ? { ...p, name: action.name } : p)) };
+    case "set_bot":
+      return {
+        ...s,
+        players: s.players.map((p) => {
+          if (p.id !== action.playerId) return p;
+          const { bot: _previous, ...human } = p;
+          return action.bot ? { ...human, bot: { ...action.bot } } : human;
+        }),
+      };
+    case "set_profile":
+      return {
+        ...s,
+        players: s.players.map((p) => {
+          if (p.id !== action.playerId) return p;
+          const { profileId: _previous, ...unlinked } = p;
+          return action.profileId ? { ...unlinked, profileId: action.profileId } : unlinked;
+        }),
+      };
+    case "set_target":
+      return { ...s, target: clampTarget(action.target) };
+    case "set_seed":
+      if (s.started) return s;
+      return { ...s, seed: normalizeSeed(action.seed), rngState: normalizeSeed(action.seed) };
+    case "set_rules":
+      return { ...s, settings: { ...s.settings, ...action.rules } };
+    default:
+      return s;
+  }
+}
+
+// The bare reducer: next state without touching the log. Actions that are not
+// legal in the current state (game over, rolling while the pigs must be
+// passed, …) return it untouched.
+export function reduceAction(s: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "roll":
+    case "hold":
+    case "pass_pigs":
+      break;
+    default:
+      return applySetup(s, action);
+  }
+  if (!s.started || isGameOver(s)) return s;
+  switch (action.type) {
+    case "roll":
+      if (s.needsToPassPigs) return s;
+      // An entered contact roll carries placeholder poses; never score those
+      if (action.entered && action.contact && !isContactEnabled(action.contact, s.settings)) return s;
+      return applyRoll(s, action);
+    case "hold":
+      if (s.needsToPassPigs || s.turnPoints === 0) return s;
+      return bankTurn(s, action.timestamp, 'hold');
+    case "pass_pigs":
+      if (!s.needsToPassPigs) return s;
+      return applyPassPigs(s, action.timestamp);
+  }
+}
+
+// Apply one action and record it in the log. Illegal actions are not logged.
+export function applyAction(s: GameState, action: GameAction): GameState {
+  const next = reduceAction(s, action);
+  return next === s ? s : { ...next, log: appendToLog(s.log, action) };
+}
+
+// Rebuild a game from its log. Pass `settings` to replay under the current
+// preferences (sounds, confetti, …) instead of the ones the match started
+// with; the game rules always come from the log.
+export function replayLog(log: LogEntry[], settings?: GameSettings): GameState | null {
+  const resolved = resolveLog(log);
+  if (!resolved) return null;
+  const base = resolved.base;
+  let s: GameState = settings ? { ...base, settings: { ...settings, ...gameRules(base.settings) } } : base;
+  for (const action of resolved.applied) s = reduceAction(s, action);
+  return { ...s, log };
+}
+
+export function undo(s: GameState): GameState {
+  if (!canUndo(s.log)) return s;
+  return replayLog(appendToLog(s.log, { type: "undo" }), s.settings) ?? s;
+}
+
+export function redo(s: GameState): GameState {
+  if (!canRedo(s.log)) return s;
+  return replayLog(appendToLog(s.log, { type: "redo" }), s.settings) ?? s;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { archiveMatch } from "./archive";
+import { applyAction, createInitialState } from "./engine";
+import { exportGame, exportMatch, mergeMatch, parseImport, rollsCsv, scoreHistoryCsv } from "./exchange";
+import { SIMPLIFIED_CLASSIC } from "./rules";
+import { SaveMigrationError, SCHEMA_VERSION } from "./schema";
+import type { GameAction, GameState, PigPose, Roll } from "./types";
+
+const ctx = { randomSeed: () => 1 };
+const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+const hold: GameAction = { type: "hold", timestamp: Date.UTC(2025, 0, 1) };
+const pass: GameAction = { type: "pass_pigs", timestamp: Date.UTC(2025, 0, 1) };
+
+const finished = (): GameState =>
+  play(
+    applyAction(createInitialState([{ id: "a", name: "Ann", score: 0 }, { id: "b", name: 'Bob "B", Jr', score: 0 }], 30), { type: "start" }),
+    roll("Snouter", "Snouter"), hold,
+    roll("Trotter", "Sider-Left"), roll("Sider-Left", "Sider-Right"), pass,
+  );
+
+describe("JSON export / import", () => {
+  it("round-trips a game", () => {
+    const s = finished();
+    const file = JSON.parse(exportGame(s, 5));
+    expect(file).toMatchObject({ format: "pass-the-pigs", kind: "game", schemaVersion: SCHEMA_VERSION, exportedAt: 5 });
+    const result = parseImport(exportGame(s, 5), ctx);
+    expect(result).toEqual({ kind: "game", state: JSON.parse(JSON.stringify(s)) });
+  });
+
+  it("round-trips an archived match", () => {
+    const [match] = archiveMatch([], finished(), 9);
+    const result = parseImport(exportMatch(match, 10), ctx);
+    expect(result.kind).toBe("match");
+    if (result.kind === "match") expect(result.match.id).toBe(match.id);
+  });
+
+  it("migrates a match exported by an older build", () => {
+    const [match] = archiveMatch([], finished(), 9);
+    const file = JSON.parse(exportMatch(match, 10));
+    file.schemaVersion = 2;
+    for (const settings of [file.data.settings, file.data.log[0].state.settings]) {
+      delete settings.ruleSet;
+      delete settings.pairWeights;
+      delete settings.scoreKeeper;
+    }
+    file.data.log[0].state.schemaVersion = 2;
+    const result = parseImport(JSON.stringify(file), ctx);
+    if (result.kind !== "match") throw new Error("expected a match");
+    expect(result.match.settings).toMatchObject({ ruleSet: SIMPLIFIED_CLASSIC, pairWeights: null, scoreKeeper: false });
+    expect(result.match.log[0].type === "new_game" && result.match.log[0].state.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it("rejects a match with a malformed score history or log", () => {
+    const [match] = archiveMatch([], finished(), 9);
+    const broken = JSON.parse(exportMatch(match, 10));
+    delete broken.data.scoreHistory[0].pointsEarned;
+    expect(() => parseImport(JSON.stringify(broken), ctx)).toThrow(/score history entry 0/);
+    const badLog = JSON.parse(exportMatch(match, 10));
+    badLog.data.log[2].pigs = ["Wingding", "Trotter"];
+    expect(() => parseImport(JSON.stringify(badLog), ctx)).toThrow(SaveMigrationError);
+  });
+
+  it("rejects a game whose log or score history cannot be replayed", () => {
+    const file = () => JSON.parse(exportGame(finished(), 0));
+    const noOpening = file();
+    noOpening.data.log = [{ type: "new_game", state: null }, { type: "start" }];
+    expect(() => parseImport(JSON.stringify(noOpening), ctx)).toThrow(SaveMigrationError);
+    const badPose = file();
+    badPose.data.log[2].pigs = ["Nope", "Trotter"];
+    expect(() => parseImport(JSON.stringify(badPose), ctx)).toThrow(/not a known action/);
+    const badEntry = file();
+    badEntry.data.scoreHistory[0].newScore = "lots";
+    expect(() => parseImport(JSON.stringify(badEntry), ctx)).toThrow(/scoreHistory entry is malformed/);
+  });
+
+  it("accepts a bare save and migrates it", () => {
+    const { schemaVersion: _v, overtime: _o, ...old } = JSON.parse(JSON.stringify(finished()));
+    const result = parseImport(JSON.stringify(old), ctx);
+    expect(result.kind === "game" && result.state.overtime).toBe(0);
+  });
+
+  it("rejects files that fail validation", () => {
+    const file = JSON.parse(exportGame(finished(), 0));
+    file.data.players = [];
+    expect(() => parseImport(JSON.stringify(file), ctx)).toThrow(SaveMigrationError);
+    expect(() => parseImport("{not json", ctx)).toThrow(/not valid JSON/);
+    expect(() => parseImport('{"hello":1}', ctx)).toThrow(/not a Pass the Pigs export/);
+    expect(() => parseImport(JSON.stringify({ ...file, schemaVersion: SCHEMA_VERSION + 1 }), ctx)).toThrow(/newer version/);
+  });
+
+  it("merges an imported match into the archive by id", () => {
+    const [match] = archiveMatch([], finished(), 9);
+    const older = { ...match, id: "older", finishedAt: 1 };
+    expect(mergeMatch([older], match).map((m) => m.id)).toEqual([match.id, "older"]);
+    expect(mergeMatch([match, older], { ...match, finishedAt: 9 })).toHaveLength(2);
+  });
+});
+
+describe("CSV export", () => {
+  it("writes one row per turn, quoting awkward names", () => {
+    const lines = scoreHistoryCsv(finished().scoreHistory).trim().split("\r\n");
+    expect(lines[0]).toBe("turn,player,action,previous_score,points_earned,new_score,time");
+    expect(lines[1]).toBe("1,Ann,hold,0,40,40,2025-01-01T00:00:00.000Z");
+    expect(lines[2]).toBe('1,"Bob ""B"", Jr",pass_pigs,0,0,0,2025-01-01T00:00:00.000Z');
+  });
+
+  it("writes one row per roll", () => {
+    const lines = rollsCsv(finished().scoreHistory).trim().split("\r\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toBe('1,"Bob ""B"", Jr",1,Trotter,Sider-Left,,5,Trotter (+5),app');
+    expect(lines[3]).toMatch(/^1,"Bob ""B"", Jr",2,Sider-Left,Sider-Right,,0,Pig Out/);
+  });
+
+  it("leaves the poses of a contact roll empty", () => {
+    const [ann] = finished().scoreHistory;
+    const piggyback: Roll = { pigs: [{ pose: "Sider-Left" }, { pose: "Sider-Left" }], points: 0, event: "Piggyback", contact: "Piggyback", entered: true };
+    expect(rollsCsv([{ ...ann, rolls: [piggyback] }]).trim().split("\r\n")[1]).toBe("1,Ann,1,,,Piggyback,0,Piggyback,table");
+  });
+});
@@ -0,0 +1,130 @@
+// ---------------------------------------------
+// Export / import: versioned JSON files for a game or an archived match,
+// and CSV tables of the score history and every roll.
+// ---------------------------------------------
+
+import { isScoreEntry, migrateGameState, migrateLog, migrateSettings, SaveMigrationError, SCHEMA_VERSION } from "./schema";
+import type { MigrationContext } from "./schema";
+import type { ArchivedMatch, GameState, ScoreEntry } from "./types";
+
+export const EXPORT_FORMAT = "pass-the-pigs";
+
+// Wrapper every exported JSON file carries. `schemaVersion` is the save
+// schema the data was written with, so imports can migrate it.
+export type ExportFile =
+  | { format: typeof EXPORT_FORMAT; kind: "game"; schemaVersion: number; exportedAt: number; data: GameState }
+  | { format: typeof EXPORT_FORMAT; kind: "match"; schemaVersion: number; exportedAt: number; data: ArchivedMatch };
+
+export type ImportResult = { kind: "game"; state: GameState } | { kind: "match"; match: ArchivedMatch };
+
+export function exportGame(state: GameState, exportedAt: number): string {
+  const file: ExportFile = { format: EXPORT_FORMAT, kind: "game", schemaVersion: SCHEMA_VERSION, exportedAt, data: state };
+  return JSON.stringify(file, null, 2);
+}
+
+export function exportMatch(match: ArchivedMatch, exportedAt: number): string {
+  const file: ExportFile = { format: EXPORT_FORMAT, kind: "match", schemaVersion: SCHEMA_VERSION, exportedAt, data: match };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read an exported file. A bare game save (e.g. the backup offered when a
+// save fails to load) is accepted too. Games and matches go through the save
+// schema's migrations and validation; throws SaveMigrationError if the file
+// is unusable.
+export function parseImport(text: string, ctx: MigrationContext): ImportResult {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SaveMigrationError("file is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== 'object') throw new SaveMigrationError("file is not a Pass the Pigs export");
+  if (parsed.format !== EXPORT_FORMAT) {
+    if ('players' in parsed && 'settings' in parsed) return { kind: "game", state: migrateGameState(parsed, ctx) };
+    throw new SaveMigrationError("file is not a Pass the Pigs export");
+  }
+  if (typeof parsed.schemaVersion === 'number' && parsed.schemaVersion > SCHEMA_VERSION) {
+    throw new SaveMigrationError(`file is from a newer version of the game (schema ${parsed.schemaVersion}, this build reads up to ${SCHEMA_VERSION})`);
+  }
+  switch (parsed.kind) {
+    case "game":
+      return { kind: "game", state: migrateGameState(parsed.data, ctx) };
+    case "match":
+      return { kind: "match", match: migrateMatch(parsed.data, typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0, ctx) };
+    default:
+      throw new SaveMigrationError(`unknown export kind ${String(parsed.kind)}`);
+  }
+}
+
+// Bring an archived match written at schema `from` up to date: its settings
+// and the log's opening state go through the save migrations, and the score
+// history and log are checked entry by entry. Throws SaveMigrationError.
+function migrateMatch(m: any, from: number, ctx: MigrationContext): ArchivedMatch {
+  if (!m || typeof m !== 'object') throw new SaveMigrationError("match is not an object");
+  const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  const errors: string[] = [];
+  if (typeof m.id !== 'string') errors.push("id is missing");
+  if (!isNum(m.finishedAt) || !isNum(m.target)) errors.push("finishedAt or target is not a number");
+  if (!Array.isArray(m.players) || !m.players.every((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string' && isNum(p.score))) {
+    errors.push("a player is missing an id, name or score");
+  }
+  if (!Array.isArray(m.winnerIds) || !m.winnerIds.every((id: unknown) => typeof id === 'string')) errors.push("winnerIds is not a list of ids");
+  if (!Array.isArray(m.scoreHistory)) errors.push("scoreHistory is not a list");
+  else {
+    const bad = m.scoreHistory.findIndex((e: unknown) => !isScoreEntry(e));
+    if (bad >= 0) errors.push(`score history entry ${bad} is malformed`);
+  }
+  if (errors.length > 0) throw new SaveMigrationError(`match failed validation: ${errors.join("; ")}`);
+  return {
+    ...m,
+    overtime: isNum(m.overtime) ? m.overtime : 0,
+    settings: migrateSettings(m.settings, from, ctx),
+    log: migrateLog(m.log, ctx),
+  };
+}
+
+// Add an imported match to the archive, newest first; an already archived
+// copy (same id) is replaced.
+export function mergeMatch(archive: ArchivedMatch[], match: ArchivedMatch): ArchivedMatch[] {
+  return [match, ...archive.filter((m) => m.id !== match.id)].sort((a, b) => b.finishedAt - a.finishedAt);
+}
+
+// ---------------------------------------------
+// CSV
+// ---------------------------------------------
+
+const csvCell = (v: string | number | undefined) => {
+  const s = v === undefined ? "" : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const toCsv = (rows: (string | number | undefined)[][]) => rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+// One row per banked turn
+export function scoreHistoryCsv(scoreHistory: ScoreEntry[]): string {
+  return toCsv([
+    ["turn", "player", "action", "previous_score", "points_earned", "new_score", "time"],
+    ...scoreHistory.map((e) => [
+      e.turnNumber,
+      e.playerName,
+      e.action,
+      e.previousScore,
+      e.pointsEarned,
+      e.newScore,
+      new Date(e.timestamp).toISOString(),
+    ]),
+  ]);
+}
+
+// One row per roll, from the rolls recorded with each turn. `source` tells
+// real pigs entered in score-keeper mode ("table") from rolls the app drew.
+// Contact rolls leave the poses empty: the pigs touched, so they don't count.
+export function rollsCsv(scoreHistory: ScoreEntry[]): string {
+  const rows: (string | number | undefined)[][] = [["turn", "player", "roll", "pig_1", "pig_2", "contact", "points", "event", "source"]];
+  for (const e of scoreHistory) {
+    (e.rolls ?? []).forEach((r, i) => {
+      rows.push([e.turnNumber, e.playerName, i + 1, r.contact ? "" : r.pigs[0].pose, r.contact ? "" : r.pigs[1].pose, r.contact, r.points, r.event, r.entered ? "table" : "app"]);
+    });
+  }
+  return toCsv(rows);
+}
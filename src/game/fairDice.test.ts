@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, createInitialState, DEFAULT_SETTINGS } from "./engine";
+import { auditLog, commitTo, drawFairRoll, verifyRoll } from "./fairDice";
+import type { RollProof } from "./types";
+
+const proofFor = async (...nonces: string[]): Promise<RollProof> => ({
+  participants: await Promise.all(nonces.map(async (nonce, i) => ({ who: `P${i}`, commitment: await commitTo(nonce), nonce }))),
+  table: { weights: DEFAULT_SETTINGS.weights, makinBacon: true, piggyback: false },
+});
+
+describe("fair dice", () => {
+  it("verifies a roll drawn from everyone's nonces", async () => {
+    const proof = await proofFor("aa", "bb");
+    const roll = { ...(await drawFairRoll(proof)), proof };
+    expect(await verifyRoll(roll)).toBeNull();
+    expect(await drawFairRoll(proof)).toEqual(await drawFairRoll(proof));
+  });
+
+  it("catches a nonce that does not match its commitment", async () => {
+    const proof = await proofFor("aa", "bb");
+    const roll = { ...(await drawFairRoll(proof)), proof };
+    const tampered = { ...proof, participants: [proof.participants[0], { ...proof.participants[1], nonce: "cc" }] };
+    expect(await verifyRoll({ ...roll, proof: tampered })).toMatch(/P1's nonce/);
+  });
+
+  it("catches pigs the nonces did not pick", async () => {
+    const proof = await proofFor("aa", "bb");
+    const { pigs } = await drawFairRoll(proof);
+    const other = pigs[0] === "Leaning Jowler" ? "Razorback" : "Leaning Jowler";
+    expect(await verifyRoll({ pigs: [other, pigs[1]], proof })).toMatch(/not the ones/);
+    expect(await verifyRoll({ pigs })).toBe("no proof recorded");
+  });
+
+  it("audits every fair roll in a game log", async () => {
+    let s = createInitialState([{ id: "a", name: "Ann", score: 0 }], 100, DEFAULT_SETTINGS, 1);
+    s = applyAction(s, { type: "start" });
+    s = applyAction(s, { type: "roll", pigs: ["Razorback", "Razorback"] }); // no proof
+    const proof = await proofFor("x", "y");
+    s = applyAction(s, { type: "roll", ...(await drawFairRoll(proof)), proof });
+    const audit = await auditLog(s.log);
+    expect(audit).toEqual({ rolls: 2, proven: 1, problems: [] });
+  });
+});
@@ -0,0 +1,71 @@
+// ---------------------------------------------
+// Fair dice: commit-reveal rolls for players who do not trust whoever draws
+// the pigs. Everyone picks a random nonce and publishes its SHA-256 hash
+// (the commitment). Once all commitments are in, everyone reveals their
+// nonce; the hash of all nonces together seeds the draw from the weighted
+// table. Nobody can steer the result without changing a nonce, and a changed
+// nonce no longer matches its commitment.
+//
+// Uses Web Crypto (crypto.subtle), which browsers and Node both provide.
+// ---------------------------------------------
+
+import { resolveLog } from "./log";
+import { createRng } from "./rng";
+import { drawRoll } from "./scoring";
+import type { ContactOutcome, LogEntry, PigPose, RollProof } from "./types";
+
+const NONCE_BYTES = 32;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+export const isHash = (text: unknown): text is string => typeof text === 'string' && /^[0-9a-f]{64}$/.test(text);
+
+export function makeNonce(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)));
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))));
+}
+
+export const commitTo = (nonce: string) => sha256Hex(nonce);
+
+// The poses picked by a set of revealed nonces, in the order given
+export async function drawFairRoll(proof: RollProof): Promise<{ pigs: [PigPose, PigPose]; contact?: ContactOutcome }> {
+  const seed = await sha256Hex(proof.participants.map((p) => p.nonce).join(":"));
+  return drawRoll(proof.table, createRng(parseInt(seed.slice(0, 8), 16)).random);
+}
+
+// Check one roll against its proof. Returns the problem, or null if it holds up.
+export async function verifyRoll(roll: { pigs: [PigPose, PigPose]; contact?: ContactOutcome; proof?: RollProof }): Promise<string | null> {
+  const { proof } = roll;
+  if (!proof) return "no proof recorded";
+  if (proof.participants.length === 0) return "nobody took part";
+  for (const p of proof.participants) {
+    if ((await commitTo(p.nonce)) !== p.commitment) return `${p.who}'s nonce does not match their commitment`;
+  }
+  const expected = await drawFairRoll(proof);
+  if (expected.contact !== roll.contact || expected.pigs[0] !== roll.pigs[0] || expected.pigs[1] !== roll.pigs[1]) {
+    return "the pigs recorded are not the ones the nonces pick";
+  }
+  return null;
+}
+
+export type RollAudit = {
+  rolls: number; // every roll in effect
+  proven: number; // rolls that carry a proof
+  problems: { roll: number; reason: string }[]; // 1-based roll numbers
+};
+
+// Re-check every fair roll of a game from its action log
+export async function auditLog(log: LogEntry[]): Promise<RollAudit> {
+  const rolls = (resolveLog(log)?.applied ?? []).filter((a) => a.type === "roll");
+  const audit: RollAudit = { rolls: rolls.length, proven: 0, problems: [] };
+  for (const [i, roll] of rolls.entries()) {
+    if (roll.type !== "roll" || !roll.proof) continue;
+    audit.proven++;
+    const reason = await verifyRoll(roll);
+    if (reason) audit.problems.push({ roll: i + 1, reason });
+  }
+  return audit;
+}
@@ -0,0 +1,63 @@
+// ---------------------------------------------
+// Action log helpers. The log is append-only: undo and redo are entries too,
+// and the effective action list is worked out by walking it.
+// ---------------------------------------------
+
+import type { GameAction, GameState, LogEntry } from "./types";
+
+export type ResolvedLog = {
+  base: GameState; // state from the opening new_game entry
+  applied: GameAction[]; // actions currently in effect, oldest first
+  redoable: GameAction[]; // undone actions, most recently undone last
+};
+
+export function resolveLog(log: LogEntry[]): ResolvedLog | null {
+  const [first, ...rest] = log;
+  if (!first || first.type !== "new_game") return null;
+  const applied: GameAction[] = [];
+  const redoable: GameAction[] = [];
+  for (const entry of rest) {
+    if (entry.type === "new_game") continue; // only the first one counts
+    if (entry.type === "undo") {
+      const a = applied.pop();
+      if (a) redoable.push(a);
+    } else if (entry.type === "redo") {
+      const a = redoable.pop();
+      if (a) applied.push(a);
+    } else {
+      applied.push(entry);
+      redoable.length = 0; // a fresh action discards the redo branch
+    }
+  }
+  return { base: first.state, applied, redoable };
+}
+
+export function canUndo(log: LogEntry[]): boolean {
+  return (resolveLog(log)?.applied.length ?? 0) > 0;
+}
+
+export function canRedo(log: LogEntry[]): boolean {
+  return (resolveLog(log)?.redoable.length ?? 0) > 0;
+}
+
+// Append an entry. Consecutive renames of the same player (one per keystroke)
+// collapse into the last one so a single Undo reverts the whole edit; so do
+// consecutive changes to the same rule settings (typing a weight).
+export function appendToLog(log: LogEntry[], entry: LogEntry): LogEntry[] {
+  const last = log[log.length - 1];
+  if (
+    entry.type === "rename_player" &&
+    last?.type === "rename_player" &&
+    last.playerId === entry.playerId
+  ) {
+    return [...log.slice(0, -1), entry];
+  }
+  if (
+    entry.type === "set_rules" &&
+    last?.type === "set_rules" &&
+    Object.keys(entry.rules).sort().join() === Object.keys(last.rules).sort().join()
+  ) {
+    return [...log.slice(0, -1), entry];
+  }
+  return [...log, entry];
+}
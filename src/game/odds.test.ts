@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "./engine";
+import { reachProbability, reachTable, rollAgainValue, rollOdds } from "./odds";
+import { KIDS_MODE } from "./rules";
+import { PIG_POSES } from "./scoring";
+import type { GameSettings, OutcomeWeights, PairWeights } from "./types";
+
+// Every pose equally likely for each pig, no contact outcomes
+const EVEN: OutcomeWeights = {
+  "Sider-Left": 1,
+  "Sider-Right": 1,
+  Razorback: 1,
+  Trotter: 1,
+  Snouter: 1,
+  "Leaning Jowler": 1,
+  "Makin' Bacon": 0,
+  Piggyback: 0,
+};
+
+const settings = (overrides: Partial<GameSettings> = {}): GameSettings => ({ ...DEFAULT_SETTINGS, weights: EVEN, ...overrides });
+
+describe("rollOdds", () => {
+  it("matches the 36 equally likely pairs of an even table", () => {
+    const odds = rollOdds(settings());
+    expect(odds.pigOut).toBeCloseTo(2 / 36);
+    expect(odds.sider).toBeCloseTo(2 / 36);
+    expect(odds.double).toBeCloseTo(4 / 36);
+    expect(odds.endTurn).toBeCloseTo(odds.pigOut);
+    expect(odds.makinBacon).toBe(0);
+    expect(odds.outcomes.reduce((a, o) => a + o.p, 0)).toBeCloseTo(1);
+  });
+
+  it("works out the expected points of a roll under the classic rules", () => {
+    // Same siders 2×1, sider + pose 16 pairs worth 2×(5+5+10+15), doubles
+    // 20+20+40+60, mixed poses 12 pairs worth 2×105; out of 36
+    expect(rollOdds(settings()).expectedPoints).toBeCloseTo(492 / 36);
+  });
+
+  it("counts contact outcomes only when their variant is on", () => {
+    const weights = { ...EVEN, "Makin' Bacon": 2, Piggyback: 1 };
+    expect(rollOdds(settings({ weights })).makinBacon).toBe(0);
+    const odds = rollOdds(settings({ weights, makinBacon: true, piggyback: true }));
+    expect(odds.makinBacon).toBeCloseTo(2 / 9);
+    expect(odds.piggyback).toBeCloseTo(1 / 9);
+    expect(odds.pigOut).toBeCloseTo((6 / 9) * (2 / 36));
+    expect(odds.endTurn).toBeCloseTo(odds.pigOut + 3 / 9);
+  });
+
+  it("draws from the two-pig table when one is set", () => {
+    const pairWeights = Object.fromEntries(
+      PIG_POSES.map((a) => [a, Object.fromEntries(PIG_POSES.map((b) => [b, a === "Snouter" && b === "Snouter" ? 1 : 0]))])
+    ) as PairWeights;
+    const odds = rollOdds(settings({ pairWeights }));
+    expect(odds.double).toBeCloseTo(1);
+    expect(odds.expectedPoints).toBeCloseTo(40);
+  });
+});
+
+describe("rollAgainValue", () => {
+  const s = settings();
+  const odds = rollOdds(s);
+
+  it("is worth rolling until the points at stake outweigh a Pig Out", () => {
+    expect(rollAgainValue(odds, s, 0, 0)).toBeCloseTo(odds.expectedPoints);
+    // 492/36 points gained against a 2/36 chance of losing the turn
+    expect(rollAgainValue(odds, s, 245, 0)).toBeGreaterThan(0);
+    expect(rollAgainValue(odds, s, 247, 0)).toBeLessThan(0);
+  });
+
+  it("never stops when a Pig Out keeps the turn's points", () => {
+    const kids = settings({ ruleSet: KIDS_MODE });
+    expect(rollAgainValue(rollOdds(kids), kids, 1000, 0)).toBeGreaterThan(0);
+  });
+});
+
+describe("reachProbability", () => {
+  const odds = rollOdds(settings());
+
+  it("is certain with nothing to reach and falls as the need grows", () => {
+    expect(reachProbability(odds, 0)).toBe(1);
+    // Every roll but a Pig Out scores at least a point
+    expect(reachProbability(odds, 1)).toBeCloseTo(34 / 36);
+    const table = reachTable(odds, 100);
+    for (let x = 1; x <= 100; x++) expect(table[x]).toBeLessThanOrEqual(table[x - 1]);
+    expect(table[100]).toBeCloseTo(reachProbability(odds, 100));
+  });
+});
@@ -0,0 +1,112 @@
+// ---------------------------------------------
+// Exact single-roll odds under a weight table and rule set
+// ---------------------------------------------
+
+import { pairProbabilities, PIG_POSES, poseWeights, scoreRoll } from "./scoring";
+import type { ContactOutcome, GameSettings, PigPose } from "./types";
+
+export type RollOdds = {
+  pigOut: number; // P(opposite siders)
+  sider: number; // P(same-side siders)
+  double: number; // P(both pigs on the same scoring pose)
+  makinBacon: number; // P(pigs touching), 0 when the variant is off
+  piggyback: number; // P(pigs stacked), 0 when the variant is off
+  endTurn: number; // P(any outcome that ends the turn)
+  expectedPoints: number; // E[points] per roll, counting turn-ending rolls as 0
+  // Every possible outcome with its probability, for callers that need more
+  outcomes: { pigs: [PigPose, PigPose]; contact?: ContactOutcome; p: number; points: number; endsTurn: boolean }[];
+};
+
+type OddsSettings = Pick<GameSettings, "weights" | "pairWeights" | "makinBacon" | "piggyback" | "ruleSet">;
+
+export function rollOdds(settings: OddsSettings): RollOdds {
+  const poses = poseWeights(settings.weights);
+  const poseTotal = PIG_POSES.reduce((a, p) => a + Math.max(0, poses[p]), 0);
+  const bacon = settings.makinBacon ? Math.max(0, settings.weights["Makin' Bacon"]) : 0;
+  const piggy = settings.piggyback ? Math.max(0, settings.weights.Piggyback) : 0;
+  const total = poseTotal + bacon + piggy;
+
+  const outcomes: RollOdds["outcomes"] = [];
+  if (total > 0) {
+    // Mirrors drawRoll: contact first, then the pair of poses
+    const pNone = poseTotal / total;
+    const pairs = pairProbabilities(settings);
+    for (const a of PIG_POSES) {
+      for (const b of PIG_POSES) {
+        const p = pNone * pairs[a][b];
+        if (p === 0) continue;
+        const { points, endsTurn } = scoreRoll(a, b, undefined, settings.ruleSet);
+        outcomes.push({ pigs: [a, b], p, points, endsTurn });
+      }
+    }
+    if (bacon > 0) outcomes.push({ pigs: ["Sider-Left", "Sider-Right"], contact: "Makin' Bacon", p: bacon / total, points: 0, endsTurn: true });
+    if (piggy > 0) outcomes.push({ pigs: ["Sider-Left", "Sider-Right"], contact: "Piggyback", p: piggy / total, points: 0, endsTurn: true });
+  }
+
+  let pigOut = 0;
+  let sider = 0;
+  let double = 0;
+  let endTurn = 0;
+  let expectedPoints = 0;
+  for (const o of outcomes) {
+    const [a, b] = o.pigs;
+    if (o.endsTurn) endTurn += o.p;
+    if (o.endsTurn && !o.contact) pigOut += o.p;
+    if (!o.contact && a === b) {
+      if (a === "Sider-Left" || a === "Sider-Right") sider += o.p;
+      else double += o.p;
+    }
+    if (!o.endsTurn) expectedPoints += o.p * o.points;
+  }
+  return {
+    pigOut,
+    sider,
+    double,
+    makinBacon: total > 0 ? bacon / total : 0,
+    piggyback: total > 0 ? piggy / total : 0,
+    endTurn,
+    expectedPoints,
+    outcomes,
+  };
+}
+
+// Expected change in the roller's position from rolling once more instead of
+// holding, given the points at stake this turn and their banked score.
+// Positive means rolling is worth it on average.
+export function rollAgainValue(odds: RollOdds, settings: OddsSettings, turnPoints: number, banked: number): number {
+  const pigOutLoss = settings.ruleSet.pigOut === "bank_turn" ? 0 : turnPoints;
+  const loss =
+    odds.pigOut * pigOutLoss +
+    odds.makinBacon * (turnPoints + banked) +
+    odds.piggyback * (turnPoints + banked); // being knocked out costs at least everything you have
+  return odds.expectedPoints - loss;
+}
+
+// Probability of adding at least `need` points this turn before a
+// turn-ending roll, if the player keeps rolling until they get there.
+export function reachProbability(odds: RollOdds, need: number): number {
+  if (need <= 0) return 1;
+  return reachTable(odds, need)[need];
+}
+
+// reachProbability for every need from 0 to `max` at once
+export function reachTable(odds: RollOdds, max: number): number[] {
+  // Scoring outcomes grouped by points; 0-point rolls just repeat the state
+  const byPoints = new Map<number, number>();
+  let stall = 0;
+  for (const o of odds.outcomes) {
+    if (o.endsTurn) continue;
+    if (o.points <= 0) stall += o.p;
+    else byPoints.set(o.points, (byPoints.get(o.points) ?? 0) + o.p);
+  }
+  // f[x] = P(reach x more points); f[x <= 0] = 1
+  const f = new Array<number>(Math.max(0, max) + 1).fill(0);
+  f[0] = 1;
+  if (stall >= 1) return f;
+  for (let x = 1; x <= max; x++) {
+    let p = 0;
+    for (const [points, q] of byPoints) p += q * (x - points <= 0 ? 1 : f[x - points]);
+    f[x] = p / (1 - stall);
+  }
+  return f;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "./engine";
+import { rollOdds } from "./odds";
+import { BUILT_IN_WEIGHT_PRESETS, pairWeightsAreValid, parseWeightPresets, presetMatching, saveWeightPreset, validatePairWeights, validateWeights, weightsAreValid } from "./presets";
+import { DEFAULT_WEIGHTS, independentPairWeights, poseProbabilities } from "./scoring";
+import type { WeightPreset } from "./types";
+
+const preset = (id: string, name: string, weights = DEFAULT_WEIGHTS): WeightPreset => ({ id, name, weights, createdAt: 1 });
+const builtIn = (id: string) => BUILT_IN_WEIGHT_PRESETS.find((p) => p.id === id)!;
+
+describe("weight presets", () => {
+  it("include Arcade, Realistic, Chaos and Jowler Party, all valid", () => {
+    expect(BUILT_IN_WEIGHT_PRESETS.map((p) => p.name)).toEqual(["Arcade", "Realistic", "Chaos", "Jowler Party"]);
+    for (const p of BUILT_IN_WEIGHT_PRESETS) expect(weightsAreValid(validateWeights(p.weights))).toBe(true);
+    expect(presetMatching({ ...DEFAULT_WEIGHTS }, BUILT_IN_WEIGHT_PRESETS)?.id).toBe("arcade");
+    expect(presetMatching({ ...DEFAULT_WEIGHTS, Trotter: 9 }, BUILT_IN_WEIGHT_PRESETS)).toBeNull();
+  });
+
+  it("replace a saved preset with the same name", () => {
+    const presets = saveWeightPreset([preset("a", "Mine"), preset("b", "Other")], preset("c", " mine "));
+    expect(presets.map((p) => p.id)).toEqual(["b", "c"]);
+  });
+
+  it("drop broken entries when loaded", () => {
+    expect(parseWeightPresets([preset("a", "Mine"), { id: "b", name: "Broken", weights: { Trotter: 1 } }]).map((p) => p.id)).toEqual(["a"]);
+    expect(() => parseWeightPresets({})).toThrow();
+  });
+});
+
+describe("weight validation", () => {
+  it("flags missing and negative weights field by field", () => {
+    const errors = validateWeights({ ...DEFAULT_WEIGHTS, Trotter: NaN, Snouter: -1 });
+    expect(errors.fields).toEqual({ Trotter: "Enter a number", Snouter: "Can't be negative" });
+    expect(errors.table).toBeNull();
+    expect(weightsAreValid(errors)).toBe(false);
+  });
+
+  it("checks the two-pig table cell by cell", () => {
+    const pairWeights = independentPairWeights(DEFAULT_WEIGHTS);
+    expect(pairWeightsAreValid(validatePairWeights(pairWeights))).toBe(true);
+    const errors = validatePairWeights({ ...pairWeights, Trotter: { ...pairWeights.Trotter, Snouter: -2, Razorback: NaN } });
+    expect(errors.cells).toEqual({ Trotter: { Snouter: "Can't be negative", Razorback: "Enter a number" } });
+    expect(pairWeightsAreValid(errors)).toBe(false);
+    const empty = Object.fromEntries(Object.entries(pairWeights).map(([a, row]) => [a, Object.fromEntries(Object.keys(row).map((b) => [b, 0]))]));
+    expect(validatePairWeights(empty as typeof pairWeights).table).toMatch(/at least one pair/i);
+  });
+
+  it("needs at least one pose that can come up", () => {
+    const zero = { ...DEFAULT_WEIGHTS, "Sider-Left": 0, "Sider-Right": 0, Razorback: 0, Trotter: 0, Snouter: 0, "Leaning Jowler": 0 };
+    expect(validateWeights(zero).table).toMatch(/at least one pose/i);
+  });
+
+  it("takes each pose's chance from the two-pig table when it is on", () => {
+    const pairWeights = independentPairWeights(DEFAULT_WEIGHTS);
+    expect(poseProbabilities({ weights: DEFAULT_WEIGHTS, pairWeights }).Trotter).toBeCloseTo(poseProbabilities({ weights: DEFAULT_WEIGHTS, pairWeights: null }).Trotter, 9);
+    const onlyJowlers = Object.fromEntries(Object.entries(pairWeights).map(([a, row]) => [a, Object.fromEntries(Object.keys(row).map((b) => [b, 0]))])) as typeof pairWeights;
+    onlyJowlers["Leaning Jowler"].Trotter = 1;
+    const shares = poseProbabilities({ weights: DEFAULT_WEIGHTS, pairWeights: onlyJowlers });
+    expect(shares).toMatchObject({ "Leaning Jowler": 0.5, Trotter: 0.5, "Sider-Left": 0 });
+  });
+
+  it("derives sider and double odds from the weights", () => {
+    const odds = rollOdds({ ...DEFAULT_SETTINGS, weights: builtIn("chaos").weights });
+    expect(odds.sider).toBeCloseTo(2 / 36, 3);
+    expect(odds.double).toBeCloseTo(4 / 36, 3);
+    expect(odds.pigOut).toBeCloseTo(2 / 36, 3);
+  });
+});
@@ -0,0 +1,108 @@
+// ---------------------------------------------
+// Outcome weight presets (built in and saved by the player) and the checks a
+// weight table has to pass before the game uses it
+// ---------------------------------------------
+
+import { CONTACT_OUTCOMES } from "./calibrate";
+import { DEFAULT_WEIGHTS, PIG_POSES } from "./scoring";
+import type { OutcomeWeights, PairWeights, PigPose, WeightPreset } from "./types";
+
+const WEIGHT_KEYS = [...PIG_POSES, ...CONTACT_OUTCOMES] as (keyof OutcomeWeights)[];
+
+export const BUILT_IN_WEIGHT_PRESETS: WeightPreset[] = [
+  { id: "arcade", name: "Arcade", weights: { ...DEFAULT_WEIGHTS }, createdAt: 0 },
+  {
+    // Share of each pose in a large published count of real rolls
+    id: "realistic",
+    name: "Realistic",
+    weights: { "Sider-Left": 34.9, "Sider-Right": 30.2, Razorback: 22.4, Trotter: 8.8, Snouter: 3.08, "Leaning Jowler": 0.62, "Makin' Bacon": 0.24, Piggyback: 0.02 },
+    createdAt: 0,
+  },
+  {
+    id: "chaos",
+    name: "Chaos",
+    weights: { "Sider-Left": 16.7, "Sider-Right": 16.7, Razorback: 16.7, Trotter: 16.7, Snouter: 16.6, "Leaning Jowler": 16.6, "Makin' Bacon": 5, Piggyback: 2 },
+    createdAt: 0,
+  },
+  {
+    id: "jowler_party",
+    name: "Jowler Party",
+    weights: { "Sider-Left": 20, "Sider-Right": 20, Razorback: 12, Trotter: 10, Snouter: 8, "Leaning Jowler": 30, "Makin' Bacon": 0.4, Piggyback: 0.1 },
+    createdAt: 0,
+  },
+];
+
+export const sameWeights = (a: OutcomeWeights, b: OutcomeWeights) => WEIGHT_KEYS.every((k) => a[k] === b[k]);
+
+// The built-in or saved preset the weights come from, if any
+export const presetMatching = (weights: OutcomeWeights, presets: WeightPreset[]) => presets.find((p) => sameWeights(p.weights, weights)) ?? null;
+
+// Saving under a name that is already taken replaces that preset
+export function saveWeightPreset(presets: WeightPreset[], preset: WeightPreset): WeightPreset[] {
+  const key = preset.name.trim().toLowerCase();
+  return [...presets.filter((p) => p.name.trim().toLowerCase() !== key), preset];
+}
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === 'object' && x !== null;
+
+const isWeights = (w: unknown): w is OutcomeWeights =>
+  isRecord(w) && WEIGHT_KEYS.every((k) => {
+    const v = w[k];
+    return typeof v === 'number' && Number.isFinite(v);
+  });
+
+// Check a parsed preset list (throws if it is unusable); drops broken entries
+export function parseWeightPresets(parsed: unknown): WeightPreset[] {
+  if (!Array.isArray(parsed)) throw new Error("weight presets are not a list");
+  const presets: WeightPreset[] = [];
+  for (const p of parsed as unknown[]) {
+    if (!isRecord(p) || typeof p.id !== 'string' || typeof p.name !== 'string' || !isWeights(p.weights)) continue;
+    presets.push({ id: p.id, name: p.name, weights: p.weights, createdAt: typeof p.createdAt === 'number' ? p.createdAt : 0 });
+  }
+  return presets;
+}
+
+// ---------------------------------------------
+// Validation. randWeighted treats negative weights as 0 and falls back to the
+// last pose when everything is 0, so such tables are rejected up front.
+// ---------------------------------------------
+
+export type WeightErrors = {
+  fields: Partial<Record<keyof OutcomeWeights, string>>;
+  table: string | null; // a problem with the table as a whole
+};
+
+// `weights` may hold NaN for inputs that are not numbers
+export function validateWeights(weights: OutcomeWeights): WeightErrors {
+  const fields: WeightErrors["fields"] = {};
+  for (const k of WEIGHT_KEYS) {
+    if (!Number.isFinite(weights[k])) fields[k] = "Enter a number";
+    else if (weights[k] < 0) fields[k] = "Can't be negative";
+  }
+  const poseTotal = PIG_POSES.reduce((a, p) => a + (Number.isFinite(weights[p]) ? Math.max(0, weights[p]) : 0), 0);
+  return { fields, table: poseTotal > 0 ? null : "At least one pose needs a weight above 0" };
+}
+
+export const weightsAreValid = (errors: WeightErrors) => errors.table === null && Object.keys(errors.fields).length === 0;
+
+export type PairWeightErrors = {
+  cells: Partial<Record<PigPose, Partial<Record<PigPose, string>>>>; // by first pig, then second
+  table: string | null;
+};
+
+// The two-pig table, checked cell by cell like validateWeights
+export function validatePairWeights(pairWeights: PairWeights): PairWeightErrors {
+  const cells: PairWeightErrors["cells"] = {};
+  let total = 0;
+  for (const a of PIG_POSES) {
+    for (const b of PIG_POSES) {
+      const w = pairWeights[a][b];
+      const error = !Number.isFinite(w) ? "Enter a number" : w < 0 ? "Can't be negative" : null;
+      if (error) cells[a] = { ...cells[a], [b]: error };
+      else total += w;
+    }
+  }
+  return { cells, table: total > 0 ? null : "At least one pair needs a weight above 0" };
+}
+
+export const pairWeightsAreValid = (errors: PairWeightErrors) => errors.table === null && Object.keys(errors.cells).length === 0;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, createInitialState, undo } from "./engine";
+import { averagePointsPerTurn, createProfile, EMPTY_PROFILE_STORE, parseProfileStore, pigOutRate, recordMatch } from "./profiles";
+import type { GameAction, GameState, PigPose, ProfileStore } from "./types";
+
+const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+const hold: GameAction = { type: "hold", timestamp: 1 };
+const pass: GameAction = { type: "pass_pigs", timestamp: 2 };
+const pigOut = roll("Sider-Left", "Sider-Right");
+
+const store: ProfileStore = {
+  ...EMPTY_PROFILE_STORE,
+  profiles: [createProfile("ann", "Ann", 0), createProfile("bob", "Bob", 0)],
+};
+
+// Ann (linked) wins 40-0 against Bob (linked) and an unlinked guest
+const finished = (): GameState => {
+  const start = applyAction(
+    createInitialState(
+      [
+        { id: "p0", name: "Ann", score: 0, profileId: "ann" },
+        { id: "p1", name: "Bob", score: 0, profileId: "bob" },
+        { id: "p2", name: "Guest", score: 0 },
+      ],
+      20,
+    ),
+    { type: "start" },
+  );
+  return play(
+    start,
+    roll("Snouter", "Snouter"), hold, // Ann banks 40 (double Snouter) and triggers the Final Round
+    roll("Trotter", "Sider-Left"), pigOut, pass, // Bob pigs out
+    pigOut, pass, // Guest pigs out
+  );
+};
+
+describe("recordMatch", () => {
+  it("adds a finished game to each linked profile", () => {
+    const next = recordMatch(store, finished());
+    const [ann, bob] = next.profiles;
+    expect(ann.stats).toMatchObject({ gamesPlayed: 1, wins: 1, turns: 1, pointsBanked: 40, bestTurn: 40, pigOuts: 0, rolls: 1 });
+    expect(ann.stats.poseCounts.Snouter).toBe(2);
+    expect(bob.stats).toMatchObject({ gamesPlayed: 1, wins: 0, turns: 1, pointsBanked: 0, pigOuts: 1, rolls: 2 });
+    expect(bob.stats.poseCounts).toMatchObject({ Trotter: 1, "Sider-Left": 2, "Sider-Right": 1 });
+    expect(averagePointsPerTurn(ann.stats)).toBe(40);
+    expect(pigOutRate(bob.stats)).toBe(1);
+  });
+
+  it("leaves the placeholder poses of contact rolls out of the pose counts", () => {
+    const s = finished();
+    const bacon: GameAction = { type: "roll", pigs: ["Sider-Left", "Sider-Left"], contact: "Makin' Bacon", entered: true };
+    const withBacon = play(
+      applyAction(createInitialState(s.players.map((p) => ({ ...p, score: 0 })), 20), { type: "set_rules", rules: { makinBacon: true } }),
+      { type: "start" },
+      roll("Snouter", "Snouter"), hold,
+      roll("Trotter", "Sider-Left"), bacon, pass,
+      pigOut, pass,
+    );
+    const bob = recordMatch(store, withBacon).profiles[1];
+    expect(bob.stats.rolls).toBe(1);
+    expect(bob.stats.poseCounts).toMatchObject({ Trotter: 1, "Sider-Left": 1 });
+  });
+
+  it("counts a match only once", () => {
+    const s = finished();
+    const once = recordMatch(store, s);
+    expect(recordMatch(once, s)).toBe(once);
+  });
+
+  it("records a game again when it is undone and won by someone else", () => {
+    const s = finished();
+    const rewound = [1, 2, 3, 4].reduce(undo, s); // back to Bob's Trotter
+    const replayed = play(rewound, roll("Snouter", "Snouter"), hold, pigOut, pass); // Bob reaches 45 and wins
+    const [ann, bob] = recordMatch(recordMatch(store, s), replayed).profiles;
+    expect(bob.stats).toMatchObject({ gamesPlayed: 2, wins: 1 });
+    expect(ann.stats).toMatchObject({ gamesPlayed: 2, wins: 1 });
+  });
+
+  it("ignores games that are still being played", () => {
+    const s = finished();
+    const unfinished = { ...s, finalTurns: { ...s.finalTurns, p2: false } };
+    expect(recordMatch(store, unfinished)).toBe(store);
+  });
+});
+
+describe("parseProfileStore", () => {
+  it("fills in stats missing from an older store", () => {
+    const parsed = parseProfileStore({ profiles: [{ id: "ann", name: "Ann", stats: { gamesPlayed: 3 } }] });
+    expect(parsed.recordedMatches).toEqual([]);
+    expect(parsed.profiles[0].stats.gamesPlayed).toBe(3);
+    expect(parsed.profiles[0].stats.poseCounts.Razorback).toBe(0);
+  });
+
+  it("rejects data that is not a profile store", () => {
+    expect(() => parseProfileStore(null)).toThrow();
+    expect(() => parseProfileStore({ profiles: [{ name: "No id" }] })).toThrow();
+  });
+});
@@ -0,0 +1,118 @@
+// ---------------------------------------------
+// Saved player profiles and their lifetime statistics.
+// Stats are folded in from a finished game's scoreHistory (one entry per
+// turn, carrying that turn's rolls), so nothing extra is tracked during play.
+// ---------------------------------------------
+
+import { getWinners, isGameOver } from "./engine";
+import { PIG_POSES } from "./scoring";
+import type { GameState, PigPose, Player, Profile, ProfileStats, ProfileStore, ScoreEntry } from "./types";
+
+// How many recorded match keys to remember (enough to never double count)
+const RECORDED_MATCH_LIMIT = 200;
+
+export const EMPTY_PROFILE_STORE: ProfileStore = { profiles: [], recordedMatches: [] };
+
+export function emptyStats(): ProfileStats {
+  return {
+    gamesPlayed: 0,
+    wins: 0,
+    turns: 0,
+    pointsBanked: 0,
+    pigOuts: 0,
+    bestTurn: 0,
+    rolls: 0,
+    poseCounts: Object.fromEntries(PIG_POSES.map((p) => [p, 0])) as Record<PigPose, number>,
+  };
+}
+
+export function createProfile(id: string, name: string, createdAt: number): Profile {
+  return { id, name, createdAt, stats: emptyStats() };
+}
+
+export const averagePointsPerTurn = (s: ProfileStats) => (s.turns ? s.pointsBanked / s.turns : 0);
+export const pigOutRate = (s: ProfileStats) => (s.turns ? s.pigOuts / s.turns : 0);
+export const winRate = (s: ProfileStats) => (s.gamesPlayed ? s.wins / s.gamesPlayed : 0);
+
+// Share of pigs that landed in `pose`
+export const poseShare = (s: ProfileStats, pose: PigPose) => (s.rolls ? s.poseCounts[pose] / (s.rolls * 2) : 0);
+
+// Did this turn end in a Pig Out? Older entries have no rolls, so fall back
+// to "passed the pigs with nothing banked".
+export function isPigOutTurn(e: ScoreEntry): boolean {
+  if (e.rolls) return e.rolls.some((r) => !r.contact && r.event.startsWith("Pig Out"));
+  return e.action === 'pass_pigs' && e.pointsEarned <= 0;
+}
+
+// Add one player's turns from a finished game to their running totals
+export function addTurns(stats: ProfileStats, entries: ScoreEntry[]): ProfileStats {
+  const next = { ...stats, poseCounts: { ...stats.poseCounts } };
+  for (const e of entries) {
+    next.turns++;
+    next.pointsBanked += Math.max(0, e.pointsEarned);
+    next.bestTurn = Math.max(next.bestTurn, e.pointsEarned);
+    if (isPigOutTurn(e)) next.pigOuts++;
+    for (const r of e.rolls ?? []) {
+      if (r.contact) continue;
+      next.rolls++;
+      for (const pig of r.pigs) next.poseCounts[pig.pose]++;
+    }
+  }
+  return next;
+}
+
+// Identifies a match result across undo/redo and reloads: the seed plus the
+// time of its first turn (timestamps are stored in the log, so replays keep
+// them), then everyone's final score. A finished game that is undone and
+// played out to another result gets a new key, so that result is recorded too.
+export function matchKey(s: Pick<GameState, "seed" | "scoreHistory">): string | null {
+  const first = s.scoreHistory[0];
+  if (!first) return null;
+  const scores = new Map<string, number>();
+  for (const e of s.scoreHistory) scores.set(e.playerId, e.newScore);
+  return `${s.seed}:${first.playerId}:${first.timestamp}/${[...scores].map(([id, score]) => `${id}=${score}`).join(",")}`;
+}
+
+// The part of a matchKey shared by every way the match could have ended
+export const matchStart = (key: string) => key.split("/")[0];
+
+// Fold a finished game into the profiles of the players linked to one.
+// Returns the store unchanged if the game is not over, has no linked players
+// or was already recorded.
+export function recordMatch(store: ProfileStore, s: GameState): ProfileStore {
+  const key = matchKey(s);
+  if (!key || !isGameOver(s) || store.recordedMatches.includes(key)) return store;
+  const linked = new Map<string, Player>();
+  for (const p of s.players) if (p.profileId) linked.set(p.profileId, p);
+  if (![...linked.keys()].some((id) => store.profiles.some((pr) => pr.id === id))) return store;
+  const winners = new Set(getWinners(s).map((p) => p.id));
+  const profiles = store.profiles.map((profile) => {
+    const player = linked.get(profile.id);
+    if (!player) return profile;
+    const stats = addTurns(profile.stats, s.scoreHistory.filter((e) => e.playerId === player.id));
+    stats.gamesPlayed++;
+    if (winners.has(player.id)) stats.wins++;
+    return { ...profile, stats };
+  });
+  return { profiles, recordedMatches: [...store.recordedMatches, key].slice(-RECORDED_MATCH_LIMIT) };
+}
+
+// Check a parsed profile store (throws if it is unusable); fills in stats
+// fields added since it was written.
+export function parseProfileStore(parsed: any): ProfileStore {
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.profiles)) {
+    throw new Error("profile store has no profile list");
+  }
+  const profiles: Profile[] = parsed.profiles.map((p: any) => {
+    if (!p || typeof p.id !== 'string' || typeof p.name !== 'string') throw new Error("a profile is missing its id or name");
+    const base = emptyStats();
+    return {
+      id: p.id,
+      name: p.name,
+      createdAt: typeof p.createdAt === 'number' ? p.createdAt : 0,
+      stats: { ...base, ...p.stats, poseCounts: { ...base.poseCounts, ...p.stats?.poseCounts } },
+    };
+  });
+  const recordedMatches = Array.isArray(parsed.recordedMatches) ? parsed.recordedMatches.filter((k: unknown) => typeof k === 'string') : [];
+  return { profiles, recordedMatches };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, createInitialState, DEFAULT_SETTINGS, undo } from "./engine";
+import { describeFrame, replayFrames } from "./replay";
+import type { GameAction, GameState, PigPose } from "./types";
+
+const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+const hold: GameAction = { type: "hold", timestamp: 1 };
+
+const started = (): GameState =>
+  applyAction(
+    createInitialState(
+      [
+        { id: "a", name: "Ann", score: 0 },
+        { id: "b", name: "Bob", score: 0 },
+      ],
+      100,
+      DEFAULT_SETTINGS,
+      1,
+    ),
+    { type: "start" },
+  );
+
+describe("replayFrames", () => {
+  it("opens with the starting position, then one frame per move", () => {
+    const s = play(started(), roll("Snouter", "Trotter"), hold, roll("Sider-Left", "Sider-Right"));
+    const frames = replayFrames(s.log)!;
+    expect(frames.map((f) => f.action?.type ?? null)).toEqual([null, "roll", "hold", "roll"]);
+    expect(frames[0].state.started).toBe(true);
+    expect(frames[3].state).toEqual(expect.objectContaining({ currentIndex: 1, turnPoints: 0 }));
+  });
+
+  it("keeps the last roll on the table through the hold", () => {
+    const frames = replayFrames(play(started(), roll("Snouter", "Trotter"), hold).log)!;
+    expect(frames[2].lastRoll?.points).toBe(15);
+    expect(frames[2].state.players[0].score).toBe(15);
+  });
+
+  it("leaves undone moves out", () => {
+    const s = play(undo(play(started(), roll("Trotter", "Trotter"))), roll("Snouter", "Snouter"));
+    const frames = replayFrames(s.log)!;
+    expect(frames).toHaveLength(2);
+    expect(frames[1].state.turnPoints).toBe(40);
+  });
+
+  it("returns a single frame for a game with no moves yet", () => {
+    expect(replayFrames(started().log)).toHaveLength(1);
+    expect(replayFrames([])).toBeNull();
+  });
+});
+
+describe("describeFrame", () => {
+  it("names the player who made each move", () => {
+    const frames = replayFrames(play(started(), roll("Snouter", "Trotter"), hold).log)!;
+    expect(frames.map((f, i) => describeFrame(f, frames[i - 1] ?? null))).toEqual([
+      "Start of the game",
+      "Ann rolled Snouter + Trotter (+15)",
+      "Ann held 15 points",
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+// ---------------------------------------------
+// Replay: a recorded game as a list of frames, one per roll, hold and pass,
+// for stepping through it after the fact.
+// ---------------------------------------------
+
+import { reduceAction } from "./engine";
+import { resolveLog } from "./log";
+import type { GameAction, GameState, LogEntry, Roll } from "./types";
+
+export type ReplayFrame = {
+  state: GameState; // the game right after `action`
+  action: GameAction | null; // null for the opening frame
+  lastRoll: Roll | null; // pigs on the table (kept through the hold/pass that follows)
+};
+
+// Rebuild every step of a game from its log. Setup actions are applied but
+// get no frame of their own. Returns null for a log without a new_game entry.
+export function replayFrames(log: LogEntry[]): ReplayFrame[] | null {
+  const resolved = resolveLog(log);
+  if (!resolved) return null;
+  let s = resolved.base;
+  let lastRoll: Roll | null = null;
+  const frames: ReplayFrame[] = [];
+  let opening: ReplayFrame | null = null;
+  for (const action of resolved.applied) {
+    const isMove = action.type === "roll" || action.type === "hold" || action.type === "pass_pigs";
+    if (isMove && !opening) {
+      opening = { state: s, action: null, lastRoll: null };
+      frames.push(opening);
+    }
+    const next = reduceAction(s, action);
+    if (!isMove || next === s) {
+      s = next;
+      continue;
+    }
+    s = next;
+    if (action.type === "roll") lastRoll = s.history[s.history.length - 1] ?? null;
+    frames.push({ state: s, action, lastRoll });
+  }
+  if (!opening) frames.push({ state: s, action: null, lastRoll: null });
+  return frames;
+}
+
+// Short caption for a frame, e.g. "Ann rolled Snouter + Trotter (+15)"
+export function describeFrame(frame: ReplayFrame, previous: ReplayFrame | null): string {
+  const before = previous?.state ?? frame.state;
+  const player = before.players[before.currentIndex]?.name ?? "";
+  switch (frame.action?.type) {
+    case "roll":
+      return `${player} rolled ${frame.lastRoll!.event}`;
+    case "hold":
+      return `${player} held ${before.turnPoints} point${before.turnPoints === 1 ? "" : "s"}`;
+    case "pass_pigs":
+      return `${player} passed the pigs`;
+    default:
+      return "Start of the game";
+  }
+}
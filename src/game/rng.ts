@@ -0,0 +1,33 @@
+// ---------------------------------------------
+// Seeded PRNG (mulberry32). The whole generator state is a single 32-bit
+// integer, so it can live in GameState and survive save/reload.
+// ---------------------------------------------
+
+// Clamp any number to a valid unsigned 32-bit seed
+export function normalizeSeed(seed: number): number {
+  return Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : 0;
+}
+
+// One step: returns a float in [0, 1) and the next generator state
+export function nextRandom(rngState: number): [number, number] {
+  const next = (rngState + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+// Stateful wrapper for code that wants a plain `() => number`
+export function createRng(rngState: number): { random: () => number; readonly state: number } {
+  let current = rngState >>> 0;
+  return {
+    random: () => {
+      const [value, next] = nextRandom(current);
+      current = next;
+      return value;
+    },
+    get state() {
+      return current;
+    },
+  };
+}
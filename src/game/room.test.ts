@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, DEFAULT_SETTINGS } from "./engine";
+import { applyMove, botMove, createRoom, joinRoom, leaveRoom, makeRoomCode, parseClientMessage, RoomError, seatOf, takeSeat } from "./room";
+import type { Room } from "./room";
+import type { GameState } from "./types";
+
+const setup = (): GameState =>
+  createInitialState(
+    [
+      { id: "a", name: "Ann", score: 12 },
+      { id: "b", name: "Bob", score: 0 },
+      { id: "c", name: "Robo", score: 0, bot: { strategy: "hold_at_20", holdAt: 25 } },
+    ],
+    100,
+    DEFAULT_SETTINGS,
+    9,
+  );
+
+const lastEntry = (room: Room) => room.state.log[room.state.log.length - 1];
+
+const seated = () => {
+  let room = joinRoom(joinRoom(createRoom("ABCD", setup(), "host"), "guest"), "fan");
+  room = takeSeat(takeSeat(room, "host", "a"), "guest", "b");
+  return applyMove(room, "host", "start", 1);
+};
+
+describe("rooms", () => {
+  it("start from a fresh copy of the host's setup", () => {
+    const room = createRoom("ABCD", setup(), "host");
+    expect(room.state.players.map((p) => p.score)).toEqual([0, 0, 0]);
+    expect(room.state.seed).toBe(9);
+    expect(room.clients).toEqual(["host"]);
+  });
+
+  it("give each player to one browser at a time", () => {
+    let room = joinRoom(createRoom("ABCD", setup(), "host"), "guest");
+    room = takeSeat(room, "host", "a");
+    expect(() => takeSeat(room, "guest", "a")).toThrow(RoomError);
+    expect(() => takeSeat(room, "guest", "c")).toThrow(/computer/);
+    room = takeSeat(room, "host", "b");
+    expect(room.seats).toEqual({ b: "host" });
+    expect(seatOf(takeSeat(room, "host", null), "host")).toBeNull();
+  });
+
+  it("only let the seated player move on their turn", () => {
+    const room = seated();
+    expect(() => applyMove(room, "guest", "roll", 2)).toThrow(/Ann's turn/);
+    expect(() => applyMove(room, "fan", "roll", 2)).toThrow(RoomError);
+    const rolled = applyMove(room, "host", "roll", 2);
+    expect(lastEntry(rolled).type).toBe("roll");
+    expect(() => applyMove(room, "host", "hold", 3)).toThrow(/not allowed/);
+  });
+
+  it("only let the host start", () => {
+    const room = takeSeat(joinRoom(createRoom("ABCD", setup(), "host"), "guest"), "guest", "b");
+    expect(() => applyMove(room, "guest", "start", 1)).toThrow(/host/);
+  });
+
+  it("move computer players on their own turn", () => {
+    let room = seated();
+    expect(botMove(room, 2)).toBeNull();
+    room = { ...room, state: { ...room.state, currentIndex: 2 } };
+    expect(lastEntry(botMove(room, 2)!).type).toBe("roll");
+  });
+
+  it("free the seats of a browser that leaves and hand on the host", () => {
+    const room = leaveRoom(seated(), "host")!;
+    expect(room.seats).toEqual({ b: "guest" });
+    expect(room.hostId).toBe("guest");
+    expect(leaveRoom(leaveRoom(room, "guest")!, "fan")).toBeNull();
+  });
+});
+
+describe("room helpers", () => {
+  it("make codes that are not in use", () => {
+    const values = [0, 0, 0, 0, 0.5, 0.5, 0.5, 0.5];
+    const code = makeRoomCode(() => values.shift()!, (c) => c === "AAAA");
+    expect(code).toBe("NNNN");
+  });
+
+  it("reject malformed messages", () => {
+    expect(parseClientMessage('{"type":"move","move":"roll"}')).toEqual({ type: "move", move: "roll" });
+    expect(() => parseClientMessage('{"type":"move","move":"undo"}')).toThrow(RoomError);
+    expect(() => parseClientMessage("nope")).toThrow(/JSON/);
+  });
+});
@@ -0,0 +1,297 @@
+// ---------------------------------------------
+// Online rooms: the messages between browsers and whoever hosts the match,
+// and the host's rules for who may do what. The host keeps the authoritative
+// GameState and draws every roll itself; browsers only ask for moves.
+// ---------------------------------------------
+
+import { chooseBotMove } from "./bots";
+import { applyAction, createInitialState, drawSeededRoll, isGameOver } from "./engine";
+import { isHash } from "./fairDice";
+import type { GameAction, GameSettings, GameState, RollProof } from "./types";
+
+const CODE_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // no I or O, they read as 1 and 0
+export const ROOM_CODE_LENGTH = 4;
+
+export type OnlineMove = "start" | "roll" | "hold" | "pass_pigs";
+
+export const HOST_PARTICIPANT = "host";
+
+// How long the host waits for each step of a fair roll (commit, then reveal)
+// before carrying on without the browsers that have not answered
+export const FAIR_STEP_TIMEOUT_MS = 20_000;
+
+// A fair-dice roll in progress (see fairDice.ts). The host commits when the
+// round starts and reveals last, together with the roll.
+export type FairRound = {
+  roller: string; // playerId
+  participants: { id: string; who: string }[]; // the host, then seated players in seat order
+  commitments: Record<string, string>; // participant id → hash of their nonce
+  nonces: Record<string, string>; // revealed so far
+};
+
+export type ClientMessage =
+  | { type: "create_room"; state: GameState }
+  | { type: "join_room"; code: string }
+  | { type: "take_seat"; playerId: string | null } // null = just watch
+  | { type: "move"; move: OnlineMove }
+  | { type: "commit"; commitment: string } // fair dice: hash of this browser's nonce
+  | { type: "reveal"; nonce: string }
+  | { type: "leave_room" };
+
+// What one browser sees of a room
+export type RoomView = {
+  code: string;
+  state: GameState;
+  seats: Record<string, string>; // playerId → clientId
+  fairRound: FairRound | null;
+  hostId: string;
+  clientCount: number;
+  you: string;
+};
+
+export type ServerMessage =
+  | { type: "room"; room: RoomView } // sent to everyone in the room after every change
+  | { type: "left" }
+  | { type: "error"; message: string };
+
+export type Room = {
+  code: string;
+  state: GameState;
+  hostId: string; // may start the game; passes on if the host leaves
+  clients: string[]; // everyone connected, seated or watching
+  seats: Record<string, string>;
+  fairRound: FairRound | null;
+};
+
+export class RoomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoomError";
+  }
+}
+
+export function makeRoomCode(random: () => number, taken: (code: string) => boolean): string {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) code += CODE_LETTERS[Math.floor(random() * CODE_LETTERS.length)];
+    if (!taken(code)) return code;
+  }
+}
+
+export const normalizeRoomCode = (code: string) => code.trim().toUpperCase();
+
+// A room always starts from a fresh game with the host's players, rules and seed
+export function createRoom(code: string, setup: GameState, hostId: string): Room {
+  const players = setup.players.map((p) => ({ id: p.id, name: p.name, score: 0, ...(p.bot ? { bot: p.bot } : {}) }));
+  return {
+    code,
+    state: createInitialState(players, setup.target, setup.settings, setup.seed),
+    hostId,
+    clients: [hostId],
+    seats: {},
+    fairRound: null,
+  };
+}
+
+export function joinRoom(room: Room, clientId: string): Room {
+  if (room.clients.includes(clientId)) return room;
+  return { ...room, clients: [...room.clients, clientId] };
+}
+
+// Sit down as a player (giving up any other seat), or stand up to watch
+export function takeSeat(room: Room, clientId: string, playerId: string | null): Room {
+  const seats = Object.fromEntries(Object.entries(room.seats).filter(([, c]) => c !== clientId));
+  if (playerId === null) return { ...room, seats };
+  const player = room.state.players.find((p) => p.id === playerId);
+  if (!player) throw new RoomError("There is no such player in this room");
+  if (player.bot) throw new RoomError(`${player.name} is a computer player`);
+  const holder = room.seats[playerId];
+  if (holder && holder !== clientId) throw new RoomError(`${player.name} is already taken`);
+  return { ...room, seats: { ...seats, [playerId]: clientId } };
+}
+
+// Returns null once the last client has gone
+export function leaveRoom(room: Room, clientId: string): Room | null {
+  const clients = room.clients.filter((c) => c !== clientId);
+  if (clients.length === 0) return null;
+  const seats = Object.fromEntries(Object.entries(room.seats).filter(([, c]) => c !== clientId));
+  // A fair roll cannot finish without everyone who committed; start it over
+  const fairRound = room.fairRound?.participants.some((p) => p.id === clientId) ? null : room.fairRound;
+  return { ...room, clients, seats, fairRound, hostId: room.hostId === clientId ? clients[0] : room.hostId };
+}
+
+export function seatOf(room: Pick<Room, "seats">, clientId: string): string | null {
+  return Object.entries(room.seats).find(([, c]) => c === clientId)?.[0] ?? null;
+}
+
+// The engine half of a move; rolls come from the game's own seeded RNG
+function playMove(s: GameState, move: OnlineMove, now: number): GameState {
+  switch (move) {
+    case "start":
+      return applyAction(s, { type: "start" });
+    case "roll":
+      return s.needsToPassPigs ? s : applyAction(s, drawSeededRoll(s));
+    case "hold":
+      return applyAction(s, { type: "hold", timestamp: now });
+    case "pass_pigs":
+      return applyAction(s, { type: "pass_pigs", timestamp: now });
+  }
+}
+
+// `clientId` null stands for the computer player whose turn it is
+function checkTurn(room: Room, clientId: string | null, move: OnlineMove) {
+  const s = room.state;
+  if (move === "start") {
+    if (clientId !== room.hostId) throw new RoomError("Only the host can start the game");
+    return;
+  }
+  const current = s.players[s.currentIndex];
+  if (!s.started || isGameOver(s)) throw new RoomError("The game is not in progress");
+  if (room.fairRound) throw new RoomError("The pigs are already being rolled");
+  if (clientId === null ? !current.bot : room.seats[current.id] !== clientId) throw new RoomError(`It is ${current.name}'s turn`);
+}
+
+export function applyMove(room: Room, clientId: string, move: OnlineMove, now: number): Room {
+  checkTurn(room, clientId, move);
+  const next = playMove(room.state, move, now);
+  if (next === room.state) throw new RoomError("That move is not allowed right now");
+  return { ...room, state: next };
+}
+
+// What the computer player whose turn it is wants to do, if it is one
+export function botChoice(room: Room): OnlineMove | null {
+  const s = room.state;
+  const bot = s.players[s.currentIndex]?.bot;
+  if (!s.started || isGameOver(s) || !bot || room.fairRound) return null;
+  return chooseBotMove(s, bot);
+}
+
+// Computer players move on the host too. Null when it is not a bot's turn.
+export function botMove(room: Room, now: number): Room | null {
+  const move = botChoice(room);
+  const next = move ? playMove(room.state, move, now) : room.state;
+  return next === room.state ? null : { ...room, state: next };
+}
+
+// ---------------------------------------------
+// Fair dice rounds
+// ---------------------------------------------
+
+export function startFairRound(room: Room, clientId: string | null, hostCommitment: string): Room {
+  checkTurn(room, clientId, "roll");
+  const s = room.state;
+  if (s.needsToPassPigs) throw new RoomError("That move is not allowed right now");
+  const seated = s.players.filter((p) => room.seats[p.id]).map((p) => ({ id: room.seats[p.id], who: p.name }));
+  return {
+    ...room,
+    fairRound: {
+      roller: s.players[s.currentIndex].id,
+      participants: [{ id: HOST_PARTICIPANT, who: "Host" }, ...seated],
+      commitments: { [HOST_PARTICIPANT]: hostCommitment },
+      nonces: {},
+    },
+  };
+}
+
+export function commitNonce(room: Room, clientId: string, commitment: string): Room {
+  const round = room.fairRound;
+  if (!round || !round.participants.some((p) => p.id === clientId)) throw new RoomError("You are not part of this roll");
+  if (round.commitments[clientId]) throw new RoomError("You have already committed");
+  return { ...room, fairRound: { ...round, commitments: { ...round.commitments, [clientId]: commitment } } };
+}
+
+export const allCommitted = (round: FairRound) => round.participants.every((p) => round.commitments[p.id]);
+
+// The nonce must already be checked against the commitment (hashing is async)
+export function revealNonce(room: Room, clientId: string, nonce: string): Room {
+  const round = room.fairRound;
+  if (!round || !round.commitments[clientId]) throw new RoomError("You are not part of this roll");
+  if (!allCommitted(round)) throw new RoomError("Wait until everyone has committed");
+  return { ...room, fairRound: { ...round, nonces: { ...round.nonces, [clientId]: nonce } } };
+}
+
+// Everyone but the host has revealed
+export const roundReady = (round: FairRound) => allCommitted(round) && round.participants.every((p) => p.id === HOST_PARTICIPANT || p.id in round.nonces);
+
+// Participants who have not done the current step: committing until everyone
+// has, revealing after that. The host reveals last and is never silent.
+export function silentParticipants(round: FairRound): string[] {
+  const done = allCommitted(round) ? (id: string) => id in round.nonces : (id: string) => Boolean(round.commitments[id]);
+  return round.participants.filter((p) => p.id !== HOST_PARTICIPANT && !done(p.id)).map((p) => p.id);
+}
+
+// Past the step's deadline: carry on without the silent participants. The
+// host's nonce is still secret, so the roll stays fair for everyone left.
+export function dropSilentParticipants(room: Room): Room {
+  const round = room.fairRound;
+  if (!round) return room;
+  const silent = silentParticipants(round);
+  if (silent.length === 0) return room;
+  const keep = (id: string) => !silent.includes(id);
+  return {
+    ...room,
+    fairRound: {
+      ...round,
+      participants: round.participants.filter((p) => keep(p.id)),
+      commitments: Object.fromEntries(Object.entries(round.commitments).filter(([id]) => keep(id))),
+      nonces: Object.fromEntries(Object.entries(round.nonces).filter(([id]) => keep(id))),
+    },
+  };
+}
+
+export function fairRollProof(round: FairRound, hostNonce: string, settings: GameSettings): RollProof {
+  const nonces: Record<string, string> = { ...round.nonces, [HOST_PARTICIPANT]: hostNonce };
+  return {
+    participants: round.participants.map((p) => ({ who: p.who, commitment: round.commitments[p.id], nonce: nonces[p.id] })),
+    table: { weights: settings.weights, pairWeights: settings.pairWeights, makinBacon: settings.makinBacon, piggyback: settings.piggyback },
+  };
+}
+
+export function finishFairRound(room: Room, roll: Extract<GameAction, { type: "roll" }>): Room {
+  return { ...room, state: applyAction(room.state, roll), fairRound: null };
+}
+
+export function roomView(room: Room, clientId: string): RoomView {
+  return {
+    code: room.code,
+    state: room.state,
+    seats: room.seats,
+    fairRound: room.fairRound,
+    hostId: room.hostId,
+    clientCount: room.clients.length,
+    you: clientId,
+  };
+}
+
+// Check an incoming message's shape. Game states are validated separately.
+export function parseClientMessage(text: string): ClientMessage {
+  let m: any;
+  try {
+    m = JSON.parse(text);
+  } catch {
+    throw new RoomError("Message is not JSON");
+  }
+  switch (m?.type) {
+    case "create_room":
+      if (m.state && typeof m.state === 'object') return m;
+      break;
+    case "join_room":
+      if (typeof m.code === 'string') return m;
+      break;
+    case "take_seat":
+      if (typeof m.playerId === 'string' || m.playerId === null) return m;
+      break;
+    case "move":
+      if (["start", "roll", "hold", "pass_pigs"].includes(m.move)) return m;
+      break;
+    case "commit":
+      if (isHash(m.commitment)) return m;
+      break;
+    case "reveal":
+      if (typeof m.nonce === 'string' && m.nonce.length <= 256) return m;
+      break;
+    case "leave_room":
+      return m;
+  }
+  throw new RoomError("Unknown message");
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createInitialState, DEFAULT_SETTINGS } from "./engine";
+import { auditLog, commitTo } from "./fairDice";
+import { createRoomHost } from "./roomHost";
+import type { RoomHostOptions } from "./roomHost";
+import type { RoomView, ServerMessage } from "./room";
+import type { GameState } from "./types";
+
+const setup = (): GameState =>
+  createInitialState(
+    [
+      { id: "a", name: "Ann", score: 0 },
+      { id: "c", name: "Robo", score: 0, bot: { strategy: "hold_at_20", holdAt: 25 } },
+    ],
+    100,
+    DEFAULT_SETTINGS,
+    4,
+  );
+
+const start = (options: Partial<RoomHostOptions> = {}) => {
+  const inbox: Record<string, ServerMessage[]> = {};
+  const host = createRoomHost((clientId, m) => (inbox[clientId] ??= []).push(m), {
+    botDelayMs: 100,
+    random: () => 0,
+    randomSeed: () => 1,
+    now: () => 5,
+    ...options,
+  });
+  const last = (clientId: string) => inbox[clientId]?.[inbox[clientId].length - 1];
+  const view = (clientId: string) => (inbox[clientId].filter((m) => m.type === "room").pop() as { room: RoomView }).room;
+  return { host, inbox, last, view };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("room host", () => {
+  it("creates rooms, lets others join by code and tells everyone about changes", () => {
+    const { host, view } = start();
+    host.handle("host", { type: "create_room", state: setup() });
+    expect(view("host").code).toBe("AAAA");
+    host.handle("guest", { type: "join_room", code: " aaaa " });
+    host.handle("guest", { type: "take_seat", playerId: "a" });
+    expect(view("host").seats).toEqual({ a: "guest" });
+    expect(view("host").clientCount).toBe(2);
+    expect(host.hosts("aaaa")).toBe(true);
+  });
+
+  it("answers bad requests with an error to that client only", () => {
+    const { host, inbox, last } = start();
+    host.handle("x", { type: "join_room", code: "ZZZZ" });
+    expect(last("x")).toEqual({ type: "error", message: "No room with code ZZZZ" });
+    host.handle("x", { type: "create_room", state: { nonsense: true } as unknown as GameState });
+    expect(last("x")).toMatchObject({ type: "error" });
+    expect(Object.keys(inbox)).toEqual(["x"]);
+  });
+
+  it("plays the computer players' turns after a pause", () => {
+    const { host, view } = start();
+    host.handle("host", { type: "create_room", state: setup() });
+    host.handle("host", { type: "take_seat", playerId: "a" });
+    host.handle("host", { type: "move", move: "start" });
+    host.handle("host", { type: "move", move: "roll" });
+    host.handle("host", { type: "move", move: view("host").state.needsToPassPigs ? "pass_pigs" : "hold" });
+    expect(view("host").state.currentIndex).toBe(1);
+    const before = view("host").state.log.length;
+    vi.advanceTimersByTime(100);
+    expect(view("host").state.log.length).toBe(before + 1);
+  });
+
+  it("drops a client's seat when they disconnect and closes rooms on request", () => {
+    const { host, view, inbox } = start();
+    host.handle("host", { type: "create_room", state: setup() });
+    host.handle("guest", { type: "join_room", code: "AAAA" });
+    host.handle("guest", { type: "take_seat", playerId: "a" });
+    host.disconnect("guest");
+    expect(view("host").seats).toEqual({});
+    host.close("Closed");
+    expect(inbox.host.slice(-2)).toEqual([{ type: "error", message: "Closed" }, { type: "left" }]);
+    expect(host.hosts("AAAA")).toBe(false);
+  });
+
+  it("rolls fair dice once every seated browser has committed and revealed", async () => {
+    vi.useRealTimers(); // hashing finishes outside the fake clock
+    const { host, view, last } = start();
+    host.handle("ann", { type: "create_room", state: { ...setup(), settings: { ...DEFAULT_SETTINGS, fairDice: true } } });
+    host.handle("ann", { type: "take_seat", playerId: "a" });
+    host.handle("ann", { type: "move", move: "start" });
+    host.handle("ann", { type: "move", move: "roll" });
+    await vi.waitFor(() => expect(view("ann").fairRound).not.toBeNull());
+    host.handle("ann", { type: "move", move: "hold" });
+    expect(last("ann")).toEqual({ type: "error", message: "The pigs are already being rolled" });
+
+    host.handle("ann", { type: "reveal", nonce: "early" });
+    await vi.waitFor(() => expect(last("ann")).toEqual({ type: "error", message: "That nonce does not match your commitment" }));
+    host.handle("ann", { type: "commit", commitment: await commitTo("mine") });
+    host.handle("ann", { type: "reveal", nonce: "mine" });
+    await vi.waitFor(() => expect(view("ann").fairRound).toBeNull());
+    const { log } = view("ann").state;
+    expect(log[log.length - 1].type).toBe("roll");
+    expect(await auditLog(log)).toEqual({ rolls: 1, proven: 1, problems: [] });
+    host.close("Done");
+  });
+
+  it("goes on without browsers that miss the commit or reveal deadline", async () => {
+    vi.useRealTimers();
+    const { host, view } = start({ fairStepTimeoutMs: 200 });
+    const [one, two, bobs] = await Promise.all([commitTo("one"), commitTo("two"), commitTo("bob")]);
+    const humans = { ...setup(), players: [{ id: "a", name: "Ann", score: 0 }, { id: "b", name: "Bob", score: 0 }] };
+    host.handle("ann", { type: "create_room", state: { ...humans, settings: { ...DEFAULT_SETTINGS, fairDice: true } } });
+    host.handle("bob", { type: "join_room", code: view("ann").code });
+    host.handle("ann", { type: "take_seat", playerId: "a" });
+    host.handle("bob", { type: "take_seat", playerId: "b" });
+    host.handle("ann", { type: "move", move: "start" });
+
+    // Bob never commits
+    host.handle("ann", { type: "move", move: "roll" });
+    await vi.waitFor(() => expect(view("ann").fairRound).not.toBeNull());
+    host.handle("ann", { type: "commit", commitment: one });
+    await vi.waitFor(() => expect(view("ann").fairRound?.participants.map((p) => p.who)).toEqual(["Host", "Ann"]));
+    host.handle("ann", { type: "reveal", nonce: "one" });
+    await vi.waitFor(() => expect(view("ann").state.history).toHaveLength(1));
+
+    // Bob commits, then never reveals
+    if (view("ann").state.needsToPassPigs) host.handle("ann", { type: "move", move: "pass_pigs" });
+    host.handle(view("ann").state.currentIndex === 0 ? "ann" : "bob", { type: "move", move: "roll" });
+    await vi.waitFor(() => expect(view("ann").fairRound).not.toBeNull());
+    host.handle("ann", { type: "commit", commitment: two });
+    host.handle("bob", { type: "commit", commitment: bobs });
+    host.handle("ann", { type: "reveal", nonce: "two" });
+    await vi.waitFor(() => expect(view("ann").fairRound).toBeNull());
+    const { log } = view("ann").state;
+    expect(await auditLog(log)).toEqual({ rolls: 2, proven: 2, problems: [] });
+    host.close("Done");
+  });
+});
@@ -0,0 +1,219 @@
+// ---------------------------------------------
+// Room host: keeps the rooms, answers client messages and moves computer
+// players on a timer. Transport-agnostic; the WebSocket server and a host
+// browser tab (BroadcastChannel) both wrap one of these.
+// ---------------------------------------------
+
+import { commitTo, drawFairRoll, makeNonce } from "./fairDice";
+import {
+  allCommitted,
+  applyMove,
+  botChoice,
+  botMove,
+  commitNonce,
+  createRoom,
+  dropSilentParticipants,
+  FAIR_STEP_TIMEOUT_MS,
+  fairRollProof,
+  finishFairRound,
+  HOST_PARTICIPANT,
+  joinRoom,
+  leaveRoom,
+  makeRoomCode,
+  normalizeRoomCode,
+  revealNonce,
+  roomView,
+  RoomError,
+  roundReady,
+  startFairRound,
+  takeSeat,
+} from "./room";
+import type { ClientMessage, Room, ServerMessage } from "./room";
+import { migrateGameState, SaveMigrationError } from "./schema";
+
+export type RoomHostOptions = {
+  botDelayMs: number;
+  random: () => number; // room codes
+  randomSeed: () => number; // save migration
+  now: () => number;
+  fairStepTimeoutMs?: number; // default FAIR_STEP_TIMEOUT_MS
+};
+
+export type RoomHost = {
+  handle: (clientId: string, message: ClientMessage) => void;
+  disconnect: (clientId: string) => void;
+  close: (reason: string) => void; // tells everyone in every room, then drops the rooms
+  hosts: (code: string) => boolean;
+};
+
+export function createRoomHost(send: (clientId: string, message: ServerMessage) => void, options: RoomHostOptions): RoomHost {
+  const rooms = new Map<string, Room>();
+  const roomOf = new Map<string, string>(); // clientId → room code
+  const botTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const hostNonces = new Map<string, string>(); // room code → the host's nonce for the fair roll under way
+  const fairTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const report = (clientId: string | null, e: unknown) => {
+    if (!(e instanceof RoomError || e instanceof SaveMigrationError)) console.error(e);
+    if (clientId) send(clientId, { type: "error", message: e instanceof Error ? e.message : String(e) });
+  };
+
+  // Store the room, tell everyone in it, and let a computer player move if it is their turn
+  const publish = (room: Room | null, code: string) => {
+    clearTimeout(botTimers.get(code));
+    botTimers.delete(code);
+    if (!room) {
+      rooms.delete(code);
+      clearTimeout(fairTimers.get(code));
+      fairTimers.delete(code);
+      return;
+    }
+    rooms.set(code, room);
+    for (const c of room.clients) send(c, { type: "room", room: roomView(room, c) });
+    if (botChoice(room)) {
+      botTimers.set(
+        code,
+        setTimeout(() => {
+          const latest = rooms.get(code);
+          if (!latest) return;
+          if (botChoice(latest) === "roll" && latest.state.settings.fairDice) startRound(code, null).catch((e) => report(null, e));
+          else publish(botMove(latest, options.now()) ?? latest, code);
+        }, options.botDelayMs)
+      );
+    }
+  };
+
+  // Fair dice: the host commits first, then waits for everyone seated
+  const startRound = async (code: string, clientId: string | null) => {
+    const nonce = makeNonce();
+    const commitment = await commitTo(nonce);
+    const room = rooms.get(code);
+    if (!room) return;
+    const next = startFairRound(room, clientId, commitment);
+    hostNonces.set(code, nonce);
+    publish(next, code);
+    armDeadline(code);
+    await finishRound(code); // at once if nobody is seated
+  };
+
+  // A browser that never commits or reveals (a tab in the background, or on
+  // purpose) would hold up the game: each step gets a deadline, after which
+  // the round goes on without it
+  const armDeadline = (code: string) => {
+    clearTimeout(fairTimers.get(code));
+    const hostCommitment = rooms.get(code)?.fairRound?.commitments[HOST_PARTICIPANT];
+    if (!hostCommitment) return;
+    fairTimers.set(
+      code,
+      setTimeout(() => {
+        fairTimers.delete(code);
+        const room = rooms.get(code);
+        if (room?.fairRound?.commitments[HOST_PARTICIPANT] !== hostCommitment) return; // finished or called off
+        publish(dropSilentParticipants(room), code);
+        armDeadline(code); // the reveal step, when commits were just cut short
+        finishRound(code).catch((e) => report(null, e));
+      }, options.fairStepTimeoutMs ?? FAIR_STEP_TIMEOUT_MS)
+    );
+  };
+
+  const reveal = async (code: string, clientId: string, nonce: string) => {
+    const commitment = rooms.get(code)?.fairRound?.commitments[clientId];
+    if ((await commitTo(nonce)) !== commitment) throw new RoomError("That nonce does not match your commitment");
+    const room = rooms.get(code);
+    if (!room || room.fairRound?.commitments[clientId] !== commitment) return; // the round was called off meanwhile
+    publish(revealNonce(room, clientId, nonce), code);
+    await finishRound(code);
+  };
+
+  const finishRound = async (code: string) => {
+    const room = rooms.get(code);
+    const round = room?.fairRound;
+    const nonce = hostNonces.get(code);
+    if (!room || !round || !nonce || !roundReady(round)) return;
+    const proof = fairRollProof(round, nonce, room.state.settings);
+    const { pigs, contact } = await drawFairRoll(proof);
+    const latest = rooms.get(code);
+    if (!latest || latest.fairRound !== round) return;
+    hostNonces.delete(code);
+    clearTimeout(fairTimers.get(code));
+    fairTimers.delete(code);
+    publish(finishFairRound(latest, contact ? { type: "roll", pigs, contact, proof } : { type: "roll", pigs, proof }), code);
+  };
+
+  const leave = (clientId: string) => {
+    const code = roomOf.get(clientId);
+    const room = code ? rooms.get(code) : undefined;
+    roomOf.delete(clientId);
+    if (code && room) publish(leaveRoom(room, clientId), code);
+  };
+
+  const dispatch = (clientId: string, message: ClientMessage) => {
+    if (message.type === "create_room" || message.type === "join_room") leave(clientId);
+    if (message.type === "create_room") {
+      const setup = migrateGameState(message.state, { randomSeed: options.randomSeed });
+      const code = makeRoomCode(options.random, (c) => rooms.has(c));
+      roomOf.set(clientId, code);
+      publish(createRoom(code, setup, clientId), code);
+      return;
+    }
+    if (message.type === "join_room") {
+      const code = normalizeRoomCode(message.code);
+      const room = rooms.get(code);
+      if (!room) throw new RoomError(`No room with code ${code}`);
+      roomOf.set(clientId, code);
+      publish(joinRoom(room, clientId), code);
+      return;
+    }
+    const code = roomOf.get(clientId);
+    const room = code ? rooms.get(code) : undefined;
+    if (!code || !room) throw new RoomError("You are not in a room");
+    switch (message.type) {
+      case "take_seat":
+        publish(takeSeat(room, clientId, message.playerId), code);
+        break;
+      case "move":
+        if (message.move === "roll" && room.state.settings.fairDice) startRound(code, clientId).catch((e) => report(clientId, e));
+        else publish(applyMove(room, clientId, message.move, options.now()), code);
+        break;
+      case "commit": {
+        const next = commitNonce(room, clientId, message.commitment);
+        publish(next, code);
+        if (allCommitted(next.fairRound!)) armDeadline(code); // the reveal step starts now
+        break;
+      }
+      case "reveal":
+        reveal(code, clientId, message.nonce).catch((e) => report(clientId, e));
+        break;
+      case "leave_room":
+        leave(clientId);
+        send(clientId, { type: "left" });
+        break;
+    }
+  };
+
+  return {
+    handle: (clientId, message) => {
+      try {
+        dispatch(clientId, message);
+      } catch (e) {
+        report(clientId, e);
+      }
+    },
+    disconnect: leave,
+    close: (reason) => {
+      for (const timer of [...botTimers.values(), ...fairTimers.values()]) clearTimeout(timer);
+      botTimers.clear();
+      fairTimers.clear();
+      hostNonces.clear();
+      for (const room of rooms.values()) {
+        for (const c of room.clients) {
+          send(c, { type: "error", message: reason });
+          send(c, { type: "left" });
+        }
+      }
+      rooms.clear();
+      roomOf.clear();
+    },
+    hosts: (code) => rooms.has(normalizeRoomCode(code)),
+  };
+}
@@ -0,0 +1,56 @@
+import type { PigPose, RuleSet } from "./types";
+
+const CLASSIC_POSE_VALUES: Record<PigPose, number> = {
+  "Sider-Left": 0,
+  "Sider-Right": 0,
+  Razorback: 5,
+  Trotter: 5,
+  Snouter: 10,
+  "Leaning Jowler": 15,
+};
+
+export const SIMPLIFIED_CLASSIC: RuleSet = {
+  id: "simplified-classic",
+  name: "Simplified Classic",
+  description: "Classic pose values, doubles score (a+b)×2, Pig Out loses the turn. No touching or stacking rules.",
+  poseValues: CLASSIC_POSE_VALUES,
+  siderPoints: 1,
+  doubleMultiplier: 2,
+  doubleOverrides: {},
+  mixedPair: "sum",
+  pigOut: "lose_turn",
+  variants: { makinBacon: false, piggyback: false },
+};
+
+export const OFFICIAL_1977: RuleSet = {
+  id: "official-1977",
+  name: "Official 1977 rules",
+  description: "The boxed rules: classic values and doubles, plus Makin' Bacon (Oinker) and Piggyback.",
+  poseValues: CLASSIC_POSE_VALUES,
+  siderPoints: 1,
+  doubleMultiplier: 2,
+  doubleOverrides: {},
+  mixedPair: "sum",
+  pigOut: "lose_turn",
+  variants: { makinBacon: true, piggyback: true },
+};
+
+export const KIDS_MODE: RuleSet = {
+  id: "kids",
+  name: "Kids mode",
+  description: "Gentler scoring: Siders are worth 2 and a Pig Out still banks the points rolled so far.",
+  poseValues: CLASSIC_POSE_VALUES,
+  siderPoints: 2,
+  doubleMultiplier: 2,
+  doubleOverrides: {},
+  mixedPair: "sum",
+  pigOut: "bank_turn",
+  variants: { makinBacon: false, piggyback: false },
+};
+
+export const RULE_SETS: RuleSet[] = [SIMPLIFIED_CLASSIC, OFFICIAL_1977, KIDS_MODE];
+
+// Score of a double under the given rules
+export function doubleValue(pose: PigPose, rules: RuleSet): number {
+  return rules.doubleOverrides[pose] ?? (rules.poseValues[pose] * 2) * rules.doubleMultiplier;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState } from "./engine";
+import { SIMPLIFIED_CLASSIC } from "./rules";
+import { DEFAULT_WEIGHTS } from "./scoring";
+import { SCHEMA_VERSION, SaveMigrationError, migrateGameState, validateGameState } from "./schema";
+import type { GameState } from "./types";
+
+const migrate = (save: unknown) => migrateGameState(save, { randomSeed: () => 1234 });
+const clone = <T,>(v: T): T => JSON.parse(JSON.stringify(v));
+
+// A save from the first release: no score history, turn counter or newer settings
+const legacySave = () => ({
+  started: true,
+  target: 100,
+  players: [
+    { id: "a", name: "Ann", score: 30 },
+    { id: "b", name: "Bob", score: 12 },
+  ],
+  currentIndex: 1,
+  turnPoints: 5,
+  history: [],
+  settings: {
+    weights: {
+      "Sider-Left": 34.9,
+      "Sider-Right": 30.2,
+      Razorback: 22.4,
+      Trotter: 8.8,
+      Snouter: 3,
+      "Leaning Jowler": 0.7,
+    },
+    confettiOnWin: true,
+    confettiOnSpecialRolls: true,
+    showRollHints: true,
+    soundEffects: true,
+    showPoseBadges: false,
+  },
+  finalRound: false,
+  finalLeaderIndex: null,
+  finalLeaderScore: 0,
+  finalTurns: null,
+  needsToPassPigs: false,
+});
+
+describe("migrateGameState", () => {
+  it("fills in every field a legacy save is missing", () => {
+    const s = migrate(legacySave());
+    expect(s.scoreHistory).toEqual([]);
+    expect(s.currentTurnNumber).toBe(1);
+    expect(s.settings.fastRollMode).toBe(false);
+    expect(s.settings.makinBacon).toBe(false);
+    expect(s.settings.piggyback).toBe(false);
+    expect(s.settings.weights["Makin' Bacon"]).toBe(DEFAULT_WEIGHTS["Makin' Bacon"]);
+    expect(s.settings.weights.Piggyback).toBe(DEFAULT_WEIGHTS.Piggyback);
+    expect(s.settings.botSpeed).toBe("normal");
+    expect(s.settings.ruleSet).toEqual(SIMPLIFIED_CLASSIC);
+    expect(s.seed).toBe(1234);
+    expect(s.rngState).toBe(1234);
+    expect(s.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it("keeps the game in progress and opens the action log from it", () => {
+    const s = migrate(legacySave());
+    expect(s.players.map((p: { score: number }) => p.score)).toEqual([30, 12]);
+    expect(s.log).toHaveLength(1);
+    const first = s.log[0];
+    expect(first.type).toBe("new_game");
+    if (first.type !== "new_game") return;
+    expect(first.state.players).toEqual(s.players);
+    expect(first.state.log).toEqual([]);
+    expect(first.state.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it("leaves fields that are already present alone", () => {
+    const entry = { playerId: "a", playerName: "Ann", turnNumber: 1, previousScore: 0, newScore: 30, pointsEarned: 30, action: "hold", timestamp: 5 };
+    const save = { ...legacySave(), scoreHistory: [entry], currentTurnNumber: 7, seed: 42, rngState: 99 };
+    const s = migrate(save);
+    expect(s.scoreHistory).toEqual([entry]);
+    expect(s.currentTurnNumber).toBe(7);
+    expect(s.seed).toBe(42);
+    expect(s.rngState).toBe(99);
+  });
+
+  it("migrates the opening state of an older log separately", () => {
+    // A version 5 save (log already present) whose opening state predates the log
+    const save = { ...migrate(legacySave()), schemaVersion: 5 } as any;
+    delete save.settings.botSpeed;
+    save.log = [{ type: "new_game", state: legacySave() }];
+    const s = migrate(save);
+    expect(s.settings.botSpeed).toBe("normal");
+    const first = s.log[0];
+    if (first.type !== "new_game") throw new Error("expected new_game");
+    expect(first.state.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(first.state.settings.ruleSet).toEqual(SIMPLIFIED_CLASSIC);
+  });
+
+  it("leaves a current save unchanged", () => {
+    const fresh = createInitialState([{ id: "a", name: "Ann", score: 0 }], 100, undefined, 7);
+    expect(fresh.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(migrate(clone(fresh))).toEqual(clone(fresh));
+  });
+
+  it("rejects saves from a newer version", () => {
+    const save = { ...legacySave(), schemaVersion: SCHEMA_VERSION + 1 };
+    expect(() => migrate(save)).toThrow(SaveMigrationError);
+    expect(() => migrate(save)).toThrow(/newer version/);
+  });
+
+  it("rejects values that are not saves", () => {
+    expect(() => migrate(null)).toThrow(SaveMigrationError);
+    expect(() => migrate("nope")).toThrow(SaveMigrationError);
+    expect(() => migrate([])).toThrow(SaveMigrationError);
+  });
+
+  it("rejects saves that are still broken after migrating", () => {
+    const save = { ...legacySave(), players: [], currentIndex: 0 };
+    expect(() => migrate(save)).toThrow(/players is missing or empty/);
+  });
+});
+
+describe("validateGameState", () => {
+  it("accepts a fresh game", () => {
+    const fresh: GameState = createInitialState([{ id: "a", name: "Ann", score: 0 }]);
+    expect(validateGameState(fresh)).toEqual([]);
+  });
+
+  it("reports each problem", () => {
+    const bad = { ...createInitialState([{ id: "a", name: "Ann", score: 0 }]), currentIndex: 3, seed: "x", log: [] };
+    expect(validateGameState(bad)).toEqual([
+      "currentIndex does not point at a player",
+      "seed is not a number",
+      "action log does not start with a new game",
+    ]);
+  });
+});
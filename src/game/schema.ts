@@ -0,0 +1,295 @@
+// ---------------------------------------------
+// Save schema: version number, ordered migrations and validation.
+// A save at schemaVersion N is upgraded by MIGRATIONS[N], MIGRATIONS[N+1], …
+// Saves from before versioning count as version 0.
+// ---------------------------------------------
+
+import { SIMPLIFIED_CLASSIC } from "./rules";
+import { DEFAULT_WEIGHTS, PIG_POSES } from "./scoring";
+import type { GameSettings, GameState, LogEntry, RuleSet } from "./types";
+
+export class SaveMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveMigrationError";
+  }
+}
+
+// Anything a migration needs from outside the pure world
+export type MigrationContext = { randomSeed: () => number };
+
+export type Migration = {
+  description: string;
+  migrate: (save: any, ctx: MigrationContext) => any;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    description: "Pre-versioned saves: score history, turn counter, fast roll mode",
+    migrate: (s) => {
+      if (!Array.isArray(s.scoreHistory)) s.scoreHistory = [];
+      if (typeof s.currentTurnNumber !== 'number') s.currentTurnNumber = 1;
+      if (s.settings && typeof s.settings.fastRollMode !== 'boolean') s.settings.fastRollMode = false;
+      return s;
+    },
+  },
+  {
+    description: "Makin' Bacon and Piggyback switches and weights",
+    migrate: (s) => {
+      if (s.settings) {
+        if (typeof s.settings.makinBacon !== 'boolean') s.settings.makinBacon = false;
+        if (typeof s.settings.piggyback !== 'boolean') s.settings.piggyback = false;
+        if (s.settings.weights && typeof s.settings.weights["Makin' Bacon"] !== 'number') {
+          s.settings.weights["Makin' Bacon"] = DEFAULT_WEIGHTS["Makin' Bacon"];
+        }
+        if (s.settings.weights && typeof s.settings.weights.Piggyback !== 'number') {
+          s.settings.weights.Piggyback = DEFAULT_WEIGHTS.Piggyback;
+        }
+      }
+      return s;
+    },
+  },
+  {
+    description: "Rule set (older saves always played Simplified Classic)",
+    migrate: (s) => {
+      if (s.settings && !s.settings.ruleSet) s.settings.ruleSet = SIMPLIFIED_CLASSIC;
+      return s;
+    },
+  },
+  {
+    description: "Seeded RNG (older saves rolled with Math.random)",
+    migrate: (s, ctx) => {
+      if (typeof s.seed !== 'number') {
+        s.seed = ctx.randomSeed();
+        s.rngState = s.seed;
+      }
+      return s;
+    },
+  },
+  {
+    description: "Action log, starting from the state as saved",
+    migrate: (s) => {
+      if (!Array.isArray(s.log)) s.log = [{ type: "new_game", state: { ...s, log: [] } }];
+      return s;
+    },
+  },
+  {
+    description: "Computer player speed",
+    migrate: (s) => {
+      if (s.settings && !s.settings.botSpeed) s.settings.botSpeed = 'normal';
+      return s;
+    },
+  },
+  {
+    description: "Tie-break setting and overtime counter",
+    migrate: (s) => {
+      if (s.settings && !s.settings.tieBreak) s.settings.tieBreak = 'sudden_death';
+      if (typeof s.overtime !== 'number') s.overtime = 0;
+      return s;
+    },
+  },
+  {
+    description: "Fair dice setting for online rooms",
+    migrate: (s) => {
+      if (s.settings && typeof s.settings.fairDice !== 'boolean') s.settings.fairDice = false;
+      return s;
+    },
+  },
+  {
+    description: "Score-keeper mode for physical pigs",
+    migrate: (s) => {
+      if (s.settings && typeof s.settings.scoreKeeper !== 'boolean') s.settings.scoreKeeper = false;
+      return s;
+    },
+  },
+  {
+    description: "Joint two-pig table (off for older saves)",
+    migrate: (s) => {
+      if (s.settings && s.settings.pairWeights === undefined) s.settings.pairWeights = null;
+      return s;
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isPose = (v: unknown) => (PIG_POSES as unknown[]).includes(v);
+
+// Every field of a rule set, with the right type. Custom rule sets arrive in
+// saves and share links, and the scoring code trusts them.
+export function isRuleSet(r: any): r is RuleSet {
+  const isText = (v: unknown) => typeof v === 'string';
+  return Boolean(
+    r &&
+      typeof r === 'object' &&
+      isText(r.id) &&
+      isText(r.name) &&
+      isText(r.description) &&
+      r.poseValues &&
+      typeof r.poseValues === 'object' &&
+      PIG_POSES.every((p) => isNum(r.poseValues[p])) &&
+      isNum(r.siderPoints) &&
+      isNum(r.doubleMultiplier) &&
+      r.doubleOverrides &&
+      typeof r.doubleOverrides === 'object' &&
+      !Array.isArray(r.doubleOverrides) &&
+      Object.entries(r.doubleOverrides).every(([p, v]) => isPose(p) && isNum(v)) &&
+      (r.mixedPair === "sum" || r.mixedPair === "higher") &&
+      (r.pigOut === "lose_turn" || r.pigOut === "bank_turn") &&
+      r.variants &&
+      typeof r.variants.makinBacon === 'boolean' &&
+      typeof r.variants.piggyback === 'boolean'
+  );
+}
+
+// Structural check of a (migrated) settings object
+export function validateSettings(settings: any): string[] {
+  if (!settings || typeof settings !== 'object') return ["settings are missing"];
+  const errors: string[] = [];
+  const w = settings.weights;
+  if (!w || ![...PIG_POSES, "Makin' Bacon", "Piggyback"].every((k) => isNum(w[k]))) errors.push("outcome weights are incomplete");
+  if (!isRuleSet(settings.ruleSet)) errors.push("rule set is missing or incomplete");
+  const pairs = settings.pairWeights;
+  if (pairs !== null && !(pairs && PIG_POSES.every((a) => pairs[a] && PIG_POSES.every((b) => isNum(pairs[a][b]))))) {
+    errors.push("two-pig table is incomplete");
+  }
+  return errors;
+}
+
+const SCORE_ACTIONS = ["hold", "pass_pigs", "makin_bacon", "piggyback"];
+
+// One banked (or lost) turn, rolls included
+export function isScoreEntry(e: any): boolean {
+  return Boolean(
+    e &&
+      typeof e.playerId === 'string' &&
+      typeof e.playerName === 'string' &&
+      [e.turnNumber, e.previousScore, e.newScore, e.pointsEarned, e.timestamp].every(isNum) &&
+      SCORE_ACTIONS.includes(e.action) &&
+      (e.rolls === undefined ||
+        (Array.isArray(e.rolls) &&
+          e.rolls.every((r: any) => r && Array.isArray(r.pigs) && r.pigs.length === 2 && r.pigs.every((p: any) => isPose(p?.pose)) && isNum(r.points))))
+  );
+}
+
+const LOG_TYPES = [
+  "new_game", "undo", "redo", "roll", "hold", "pass_pigs", "start", "add_player", "remove_player",
+  "rename_player", "set_bot", "set_profile", "set_target", "set_seed", "set_rules",
+];
+
+// Every entry of an action log is a known action; rolls name two poses
+export function validateLog(log: any): string[] {
+  if (!Array.isArray(log) || log[0]?.type !== "new_game") return ["action log does not start with a new game"];
+  const bad = log.findIndex(
+    (e: any) => !e || !LOG_TYPES.includes(e.type) || (e.type === "roll" && !(Array.isArray(e.pigs) && e.pigs.length === 2 && e.pigs.every(isPose)))
+  );
+  return bad >= 0 ? [`action log entry ${bad} is not a known action`] : [];
+}
+
+// Structural check of a (migrated) save, its log and the log's opening state.
+// Returns one message per problem.
+export function validateGameState(s: any): string[] {
+  const errors = validateStateFields(s);
+  if (errors[0] === "save is not an object") return errors;
+  const logErrors = validateLog(s.log);
+  if (logErrors.length > 0) return [...errors, ...logErrors];
+  // Undo and replays start from here, so it has to be a usable game too
+  const opening = validateStateFields(s.log[0].state);
+  return [...errors, ...opening.map((e) => `the log's opening state: ${e}`)];
+}
+
+// Everything validateGameState checks except the action log
+function validateStateFields(s: any): string[] {
+  const errors: string[] = [];
+  if (!s || typeof s !== 'object') return ["save is not an object"];
+  if (typeof s.started !== 'boolean') errors.push("started is not a boolean");
+  if (!isNum(s.target)) errors.push("target is not a number");
+  if (!Array.isArray(s.players) || s.players.length === 0) {
+    errors.push("players is missing or empty");
+  } else if (!s.players.every((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string' && isNum(p.score))) {
+    errors.push("a player is missing an id, name or score");
+  } else if (!Number.isInteger(s.currentIndex) || s.currentIndex < 0 || s.currentIndex >= s.players.length) {
+    errors.push("currentIndex does not point at a player");
+  }
+  if (!isNum(s.turnPoints)) errors.push("turnPoints is not a number");
+  if (!isNum(s.overtime)) errors.push("overtime is not a number");
+  if (!Array.isArray(s.history)) errors.push("history is not a list");
+  if (!Array.isArray(s.scoreHistory)) errors.push("scoreHistory is not a list");
+  else if (!s.scoreHistory.every(isScoreEntry)) errors.push("a scoreHistory entry is malformed");
+  errors.push(...validateSettings(s.settings));
+  if (!isNum(s.seed) || !isNum(s.rngState)) errors.push("seed is not a number");
+  return errors;
+}
+
+function runMigrations(save: any, ctx: MigrationContext): any {
+  const from = save.schemaVersion ?? 0;
+  if (!Number.isInteger(from) || from < 0) throw new SaveMigrationError(`unknown schema version ${String(from)}`);
+  if (from > SCHEMA_VERSION) {
+    throw new SaveMigrationError(`save is from a newer version of the game (schema ${from}, this build reads up to ${SCHEMA_VERSION})`);
+  }
+  let s = save;
+  for (let v = from; v < SCHEMA_VERSION; v++) {
+    s = MIGRATIONS[v].migrate(s, ctx);
+    s.schemaVersion = v + 1;
+  }
+  // The log's opening state is a GameState too, possibly from an older schema
+  const first = s.log?.[0];
+  if (first?.type === "new_game" && first.state && typeof first.state === 'object') {
+    first.state = runMigrations(first.state, ctx);
+  }
+  return s;
+}
+
+// Upgrade settings written at schema `from` (e.g. an archived match's) and
+// validate them. Throws SaveMigrationError when they cannot be used.
+export function migrateSettings(settings: unknown, from: number, ctx: MigrationContext): GameSettings {
+  if (!settings || typeof settings !== 'object') throw new SaveMigrationError("settings are missing");
+  let wrapper: any;
+  try {
+    // The migrations work on whole saves; give them one holding just the settings
+    wrapper = runMigrations({ schemaVersion: from, settings, log: [] }, ctx);
+  } catch (e) {
+    if (e instanceof SaveMigrationError) throw e;
+    throw new SaveMigrationError(`migration failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const errors = validateSettings(wrapper.settings);
+  if (errors.length > 0) throw new SaveMigrationError(`settings failed validation: ${errors.join("; ")}`);
+  return wrapper.settings as GameSettings;
+}
+
+// Check an action log (e.g. an archived match's) and upgrade its opening
+// state. Throws SaveMigrationError when it cannot be replayed.
+export function migrateLog(log: unknown, ctx: MigrationContext): LogEntry[] {
+  const logErrors = validateLog(log);
+  if (logErrors.length > 0) throw new SaveMigrationError(logErrors.join("; "));
+  const [first, ...rest] = log as any[];
+  let state: any;
+  try {
+    state = runMigrations(first.state && typeof first.state === 'object' ? first.state : {}, ctx);
+  } catch (e) {
+    if (e instanceof SaveMigrationError) throw e;
+    throw new SaveMigrationError(`migration failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  // The opening state's own log is empty; check it as part of this one
+  const migrated: LogEntry[] = [{ ...first, state }, ...rest];
+  const errors = validateGameState({ ...state, log: migrated });
+  if (errors.length > 0) throw new SaveMigrationError(`the log's opening state failed validation: ${errors.join("; ")}`);
+  return migrated;
+}
+
+// Upgrade a parsed save to the current schema and validate it. Mutates `save`.
+// Throws SaveMigrationError when the save cannot be used.
+export function migrateGameState(save: unknown, ctx: MigrationContext): GameState {
+  if (!save || typeof save !== 'object' || Array.isArray(save)) throw new SaveMigrationError("save is not an object");
+  let s: any;
+  try {
+    s = runMigrations(save, ctx);
+  } catch (e) {
+    if (e instanceof SaveMigrationError) throw e;
+    throw new SaveMigrationError(`migration failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const errors = validateGameState(s);
+  if (errors.length > 0) throw new SaveMigrationError(`save failed validation: ${errors.join("; ")}`);
+  return s as GameState;
+}
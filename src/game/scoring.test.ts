@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { rollOdds } from "./odds";
+import { KIDS_MODE, SIMPLIFIED_CLASSIC } from "./rules";
+import { DEFAULT_WEIGHTS, drawRoll, independentPairWeights, pairProbabilities, PIG_POSES, randWeighted, scorePair } from "./scoring";
+import type { PigPose, RuleSet } from "./types";
+
+// Simplified Classic, row = first pig, column = second pig, in PIG_POSES order:
+// Sider-Left, Sider-Right, Razorback, Trotter, Snouter, Leaning Jowler
+const CLASSIC_TABLE: number[][] = [
+  [1, 0, 5, 5, 10, 15],
+  [0, 1, 5, 5, 10, 15],
+  [5, 5, 20, 10, 15, 20],
+  [5, 5, 10, 20, 15, 20],
+  [10, 10, 15, 15, 40, 25],
+  [15, 15, 20, 20, 25, 60],
+];
+
+describe("scorePair", () => {
+  const pairs = PIG_POSES.flatMap((a, i) => PIG_POSES.map((b, j) => [a, b, CLASSIC_TABLE[i][j]] as const));
+
+  it.each(pairs)("%s + %s scores %i", (a, b, points) => {
+    expect(scorePair(a, b).points).toBe(points);
+  });
+
+  it("is symmetric for every pair", () => {
+    for (const [a, b] of pairs) {
+      expect(scorePair(a, b).points).toBe(scorePair(b, a).points);
+    }
+  });
+
+  it("flags only opposite siders as a Pig Out", () => {
+    for (const [a, b] of pairs) {
+      const opposite = (a === "Sider-Left" && b === "Sider-Right") || (a === "Sider-Right" && b === "Sider-Left");
+      expect(scorePair(a, b).event.startsWith("Pig Out")).toBe(opposite);
+    }
+  });
+
+  it("reads sider points and Pig Out behaviour from the rule set", () => {
+    expect(scorePair("Sider-Left", "Sider-Left", KIDS_MODE).points).toBe(2);
+    expect(scorePair("Sider-Left", "Sider-Right", KIDS_MODE).event).toContain("points kept");
+  });
+
+  it("supports double overrides, multipliers and the higher-value mixed rule", () => {
+    const house: RuleSet = {
+      ...SIMPLIFIED_CLASSIC,
+      doubleMultiplier: 3,
+      doubleOverrides: { "Leaning Jowler": 100 },
+      mixedPair: "higher",
+    };
+    expect(scorePair("Leaning Jowler", "Leaning Jowler", house).points).toBe(100);
+    expect(scorePair("Snouter", "Snouter", house).points).toBe(60);
+    expect(scorePair("Snouter", "Trotter", house).points).toBe(10);
+  });
+});
+
+describe("randWeighted", () => {
+  const weights: Record<PigPose, number> = {
+    "Sider-Left": 40,
+    "Sider-Right": 30,
+    Razorback: 20,
+    Trotter: 10,
+    Snouter: 0,
+    "Leaning Jowler": 0,
+  };
+
+  // Evenly spaced values across [0, 1) stand in for a perfect RNG
+  const sweep = (n: number) => {
+    let i = 0;
+    return () => (i++ % n) / n;
+  };
+
+  it("picks poses in proportion to their weights", () => {
+    const n = 1000;
+    const random = sweep(n);
+    const counts: Partial<Record<PigPose, number>> = {};
+    for (let i = 0; i < n; i++) {
+      const pose = randWeighted(weights, random);
+      counts[pose] = (counts[pose] ?? 0) + 1;
+    }
+    expect(counts).toEqual({ "Sider-Left": 400, "Sider-Right": 300, Razorback: 200, Trotter: 100 });
+  });
+
+  it("maps the ends of the RNG range to the first and last weighted pose", () => {
+    expect(randWeighted(weights, () => 0)).toBe("Sider-Left");
+    expect(randWeighted(weights, () => 0.999999)).toBe("Trotter");
+  });
+
+  it("never picks a zero or negative weight", () => {
+    const skewed = { ...weights, "Sider-Left": 0, "Sider-Right": -5 };
+    expect(randWeighted(skewed, () => 0)).toBe("Razorback");
+  });
+});
+
+describe("joint two-pig table", () => {
+  const table = { weights: DEFAULT_WEIGHTS, makinBacon: false, piggyback: false };
+
+  it("falls back to independent draws from the pose weights", () => {
+    const independent = pairProbabilities({ weights: DEFAULT_WEIGHTS, pairWeights: null });
+    expect(independent["Sider-Left"]["Trotter"]).toBeCloseTo(0.349 * 0.088, 6);
+    const zero = Object.fromEntries(PIG_POSES.map((a) => [a, Object.fromEntries(PIG_POSES.map((b) => [b, 0]))])) as ReturnType<typeof independentPairWeights>;
+    expect(drawRoll({ ...table, pairWeights: zero }, () => 0.5)).toEqual(drawRoll(table, () => 0.5));
+  });
+
+  it("draws both pigs together from the table", () => {
+    const pairWeights = independentPairWeights(DEFAULT_WEIGHTS);
+    for (const a of PIG_POSES) for (const b of PIG_POSES) pairWeights[a][b] = 0;
+    pairWeights["Sider-Right"]["Sider-Right"] = 1;
+    for (const r of [0, 0.3, 0.99]) expect(drawRoll({ ...table, pairWeights }, () => r).pigs).toEqual(["Sider-Right", "Sider-Right"]);
+  });
+
+  it("feeds the exact odds", () => {
+    const pairWeights = independentPairWeights(DEFAULT_WEIGHTS);
+    expect(rollOdds({ ...table, pairWeights, ruleSet: SIMPLIFIED_CLASSIC }).pigOut).toBeCloseTo(rollOdds({ ...table, pairWeights: null, ruleSet: SIMPLIFIED_CLASSIC }).pigOut, 4);
+    // Siders that always land on the same side never Pig Out
+    pairWeights["Sider-Left"]["Sider-Right"] = 0;
+    pairWeights["Sider-Right"]["Sider-Left"] = 0;
+    expect(rollOdds({ ...table, pairWeights, ruleSet: SIMPLIFIED_CLASSIC }).pigOut).toBe(0);
+  });
+});
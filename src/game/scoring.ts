@@ -0,0 +1,167 @@
+import { doubleValue, SIMPLIFIED_CLASSIC } from "./rules";
+import type { ContactOutcome, GameSettings, OutcomeWeights, PairWeights, PigPose, RollTable, RuleSet } from "./types";
+
+export const PIG_POSES: PigPose[] = ["Sider-Left", "Sider-Right", "Razorback", "Trotter", "Snouter", "Leaning Jowler"];
+
+// Default outcome weights (rough / arcade-like). Pose weights are per pig;
+// contact weights are per roll, on the same scale as the pose total.
+export const DEFAULT_WEIGHTS: OutcomeWeights = {
+  "Sider-Left": 34.9,
+  "Sider-Right": 30.2,
+  Razorback: 22.4,
+  Trotter: 8.8,
+  Snouter: 3,
+  "Leaning Jowler": 0.7,
+  "Makin' Bacon": 0.4,
+  Piggyback: 0.1,
+};
+
+// Pick a pose from the weight table. `random` must return a number in [0, 1),
+// e.g. Math.random — it is injected so callers control the randomness.
+export const randWeighted = <K extends string>(weights: Record<K, number>, random: () => number): K => {
+  const entries = Object.entries(weights) as [K, number][];
+  const total = entries.reduce((a, [, w]) => a + Math.max(0, w), 0);
+  let r = random() * total;
+  for (const [pose, weight] of entries) {
+    const w = Math.max(0, weight);
+    if (r < w) return pose; // zero-weight entries can never be picked
+    r -= w;
+  }
+  return entries[entries.length - 1][0];
+};
+
+// Score a pair of pigs according to a rule set (Simplified Classic by default)
+export function scorePair(a: PigPose, b: PigPose, rules: RuleSet = SIMPLIFIED_CLASSIC): { points: number; event: string } {
+  const isSider = (p: PigPose) => p === "Sider-Left" || p === "Sider-Right";
+  const values = rules.poseValues;
+
+  // Pig Out: opposite siders
+  if (
+    (a === "Sider-Left" && b === "Sider-Right") ||
+    (a === "Sider-Right" && b === "Sider-Left")
+  ) {
+    return { points: 0, event: rules.pigOut === "bank_turn" ? "Pig Out — turn ends, points kept" : "Pig Out — turn ends" };
+  }
+
+  // Sider + Sider (same side)
+  if (
+    (a === "Sider-Left" && b === "Sider-Left") ||
+    (a === "Sider-Right" && b === "Sider-Right")
+  ) {
+    return { points: rules.siderPoints, event: "Sider (same sides)" };
+  }
+
+  // If exactly one is a sider → score the other pose's value
+  if (isSider(a) && !isSider(b)) return { points: values[b], event: `${b} (+${values[b]})` };
+  if (!isSider(a) && isSider(b)) return { points: values[a], event: `${a} (+${values[a]})` };
+
+  // Both are non-siders
+  if (a === b) {
+    const points = doubleValue(a, rules);
+    return { points, event: `Double ${a} (+${points})` };
+  }
+  if (rules.mixedPair === "higher") {
+    const points = Math.max(values[a], values[b]);
+    return { points, event: `${a} + ${b} (+${points}, higher counts)` };
+  }
+  const sum = values[a] + values[b];
+  return { points: sum, event: `${a} + ${b} (+${sum})` };
+}
+
+// Single-pig weights only (contact outcomes stripped)
+export function poseWeights(weights: OutcomeWeights): Record<PigPose, number> {
+  const out = {} as Record<PigPose, number>;
+  for (const pose of PIG_POSES) out[pose] = weights[pose];
+  return out;
+}
+
+export function isContactEnabled(contact: ContactOutcome, settings: Pick<GameSettings, "makinBacon" | "piggyback">): boolean {
+  return contact === "Makin' Bacon" ? settings.makinBacon : settings.piggyback;
+}
+
+// ---------------------------------------------
+// Joint two-pig table
+// ---------------------------------------------
+
+// The table independent draws from `weights` amount to (on the scale of the pose total)
+export function independentPairWeights(weights: OutcomeWeights): PairWeights {
+  const total = PIG_POSES.reduce((a, p) => a + Math.max(0, weights[p]), 0);
+  const table = {} as PairWeights;
+  for (const a of PIG_POSES) {
+    table[a] = {} as Record<PigPose, number>;
+    for (const b of PIG_POSES) {
+      table[a][b] = total > 0 ? Math.round(((Math.max(0, weights[a]) * Math.max(0, weights[b])) / total) * 1e4) / 1e4 : 0;
+    }
+  }
+  return table;
+}
+
+const pairTotal = (table: PairWeights) => PIG_POSES.reduce((a, x) => a + PIG_POSES.reduce((b, y) => b + Math.max(0, table[x][y]), 0), 0);
+
+// The joint table in effect: null when it is not set or has no positive weight
+export const activePairWeights = (settings: Pick<RollTable, "pairWeights">): PairWeights | null =>
+  settings.pairWeights && pairTotal(settings.pairWeights) > 0 ? settings.pairWeights : null;
+
+// P(first pig a, second pig b) for a roll without contact
+export function pairProbabilities(settings: Pick<RollTable, "weights" | "pairWeights">): PairWeights {
+  const table = activePairWeights(settings) ?? independentPairWeights(settings.weights);
+  const total = pairTotal(table);
+  const out = {} as PairWeights;
+  for (const a of PIG_POSES) {
+    out[a] = {} as Record<PigPose, number>;
+    for (const b of PIG_POSES) out[a][b] = total > 0 ? Math.max(0, table[a][b]) / total : 0;
+  }
+  return out;
+}
+
+// Each pose's chance for a single pig. With the two-pig table on, that is the
+// table's marginal, averaged over the first and the second pig.
+export function poseProbabilities(settings: Pick<RollTable, "weights" | "pairWeights">): Record<PigPose, number> {
+  if (activePairWeights(settings)) {
+    const pairs = pairProbabilities(settings);
+    return Object.fromEntries(PIG_POSES.map((p) => [p, PIG_POSES.reduce((a, q) => a + pairs[p][q] + pairs[q][p], 0) / 2])) as Record<PigPose, number>;
+  }
+  const { weights } = settings;
+  const total = PIG_POSES.reduce((a, p) => a + Math.max(0, weights[p]), 0);
+  return Object.fromEntries(PIG_POSES.map((p) => [p, total > 0 ? Math.max(0, weights[p]) / total : 0])) as Record<PigPose, number>;
+}
+
+function drawPair(table: PairWeights, random: () => number): [PigPose, PigPose] {
+  const flat: Record<string, number> = {};
+  for (const a of PIG_POSES) for (const b of PIG_POSES) flat[`${a}|${b}`] = table[a][b];
+  return randWeighted(flat, random).split("|") as [PigPose, PigPose];
+}
+
+// Draw a full roll: first whether the pigs land in contact (only for enabled
+// variants), then the pair of poses from the joint table, or one pose per pig
+// when there is none. Contact outcomes always weigh against the pose total.
+export function drawRoll(settings: RollTable, random: () => number): { pigs: [PigPose, PigPose]; contact?: ContactOutcome } {
+  const poses = poseWeights(settings.weights);
+  const contactWeights = {
+    none: PIG_POSES.reduce((a, p) => a + Math.max(0, poses[p]), 0),
+    "Makin' Bacon": settings.makinBacon ? settings.weights["Makin' Bacon"] : 0,
+    Piggyback: settings.piggyback ? settings.weights.Piggyback : 0,
+  };
+  const contact = randWeighted(contactWeights, random);
+  const pairs = activePairWeights(settings);
+  const pigs: [PigPose, PigPose] = pairs ? drawPair(pairs, random) : [randWeighted(poses, random), randWeighted(poses, random)];
+  return contact === "none" ? { pigs } : { pigs, contact };
+}
+
+// Score a whole roll, including contact outcomes. `endsTurn` is true when the
+// roller has to pass the pigs (Pig Out, Makin' Bacon, Piggyback).
+export function scoreRoll(
+  a: PigPose,
+  b: PigPose,
+  contact?: ContactOutcome,
+  rules: RuleSet = SIMPLIFIED_CLASSIC
+): { points: number; event: string; endsTurn: boolean } {
+  if (contact === "Makin' Bacon") {
+    return { points: 0, event: "Makin' Bacon — pigs touching, all points lost", endsTurn: true };
+  }
+  if (contact === "Piggyback") {
+    return { points: 0, event: "Piggyback — you're out of the game", endsTurn: true };
+  }
+  const { points, event } = scorePair(a, b, rules);
+  return { points, event, endsTurn: event.startsWith("Pig Out") };
+}
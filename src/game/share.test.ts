@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, createInitialState, DEFAULT_SETTINGS, undo } from "./engine";
+import { OFFICIAL_1977 } from "./rules";
+import { independentPairWeights } from "./scoring";
+import { adoptShare, decodeMoves, decodeShare, encodeMoves, encodeShare, replayShare, SHARE_HASH_PREFIX } from "./share";
+import type { GameAction, GameState, PigPose } from "./types";
+
+const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+const hold: GameAction = { type: "hold", timestamp: 7 };
+const pass: GameAction = { type: "pass_pigs", timestamp: 7 };
+
+const setup = (): GameState => {
+  const settings = { ...DEFAULT_SETTINGS, weights: { ...DEFAULT_SETTINGS.weights, Snouter: 12 }, ruleSet: OFFICIAL_1977, makinBacon: true };
+  return createInitialState(
+    [
+      { id: "x", name: "Zoë", score: 0 },
+      { id: "y", name: "Robo", score: 0, bot: { strategy: "hold_at_n", holdAt: 30 } },
+    ],
+    300,
+    settings,
+    42,
+  );
+};
+
+describe("move encoding", () => {
+  it("round-trips rolls, contact outcomes, holds and passes", () => {
+    const moves: GameAction[] = [
+      roll("Snouter", "Trotter"),
+      hold,
+      { type: "roll", pigs: ["Razorback", "Sider-Left"], contact: "Makin' Bacon" },
+      pass,
+      { type: "roll", pigs: ["Leaning Jowler", "Sider-Right"], contact: "Piggyback" },
+    ];
+    const code = encodeMoves(moves);
+    expect(code).toBe("43h20mp51y");
+    expect(decodeMoves(code, 7)).toEqual(moves);
+  });
+
+  it("rejects unknown tokens", () => {
+    expect(() => decodeMoves("4x", 0)).toThrow();
+  });
+});
+
+describe("share links", () => {
+  it("carry a two-pig table when one is set", () => {
+    const s = setup();
+    const pairWeights = independentPairWeights(s.settings.weights);
+    pairWeights["Sider-Left"]["Sider-Left"] = 30;
+    const share = decodeShare(encodeShare({ ...s, settings: { ...s.settings, pairWeights } }, false))!;
+    expect(share.settings.pairWeights).toEqual(pairWeights);
+  });
+
+  it("reject a two-pig table with negative, missing or only empty cells", () => {
+    const hash = encodeShare(setup(), false);
+    const wire = JSON.parse(atob(hash.slice(SHARE_HASH_PREFIX.length).replace(/-/g, "+").replace(/_/g, "/")));
+    const relink = (j: unknown) => SHARE_HASH_PREFIX + btoa(JSON.stringify({ ...wire, j }));
+    const cells = (first: unknown, rest = 1) => [first, ...new Array(35).fill(rest)];
+    expect(decodeShare(relink(cells(2)))!.settings.pairWeights!["Sider-Left"]["Sider-Left"]).toBe(2);
+    expect(() => decodeShare(relink(cells(-1)))).toThrow(/two-pig table/);
+    expect(() => decodeShare(relink(cells(null)))).toThrow(/two-pig table/);
+    expect(() => decodeShare(relink(cells(0, 0)))).toThrow(/two-pig table/);
+    expect(() => decodeShare(relink([1, 2]))).toThrow(/two-pig table/);
+  });
+
+  it("carry the setup without the moves", () => {
+    const hash = encodeShare(setup(), false);
+    expect(hash.startsWith(SHARE_HASH_PREFIX)).toBe(true);
+    const share = decodeShare(hash)!;
+    expect(share.target).toBe(300);
+    expect(share.settings.ruleSet).toEqual(OFFICIAL_1977);
+    expect(share.settings.weights.Snouter).toBe(12);
+    expect(share.settings.makinBacon).toBe(true);
+    expect(share.settings.pairWeights).toBeNull();
+    expect(share.players).toEqual([{ name: "Zoë" }, { name: "Robo", bot: { strategy: "hold_at_n", holdAt: 30 } }]);
+    expect(share.moves).toBeNull();
+  });
+
+  it("adopts a setup as a fresh game with the recipient's own preferences", () => {
+    const share = decodeShare(encodeShare(setup(), false))!;
+    let n = 0;
+    const game = adoptShare(share, { ...DEFAULT_SETTINGS, soundEffects: false }, 5, () => `id${n++}`);
+    expect(game.started).toBe(false);
+    expect(game.players.map((p) => p.id)).toEqual(["id0", "id1"]);
+    expect(game.settings.soundEffects).toBe(false);
+    expect(game.settings.ruleSet).toEqual(OFFICIAL_1977);
+    expect(game.seed).toBe(5);
+  });
+
+  it("replays the moves in effect, leaving undone ones out", () => {
+    let s = play(applyAction(setup(), { type: "start" }), roll("Snouter", "Trotter"), hold, roll("Trotter", "Trotter"));
+    s = undo(s);
+    s = play(s, hold);
+    const replay = replayShare(decodeShare(encodeShare(s, true))!, DEFAULT_SETTINGS);
+    expect(replay.players.map((p) => p.score)).toEqual([15, 0]);
+    expect(replay.currentIndex).toBe(1);
+    expect(replay.scoreHistory.map((e) => e.timestamp)).toEqual([7]);
+  });
+
+  it("replay rule and target changes made during the game in order", () => {
+    const house = { ...OFFICIAL_1977, id: "house", name: "House", poseValues: { ...OFFICIAL_1977.poseValues, Trotter: 50 } };
+    const s = play(
+      applyAction(setup(), { type: "start" }),
+      roll("Trotter", "Sider-Left"), hold,
+      { type: "set_rules", rules: { ruleSet: house } },
+      { type: "set_target", target: 200 },
+      roll("Trotter", "Sider-Left"), hold,
+    );
+    expect(s.players.map((p) => p.score)).toEqual([5, 50]);
+    const share = decodeShare(encodeShare(s, true))!;
+    expect(share.settings.ruleSet).toEqual(OFFICIAL_1977); // the setup the game started with
+    const replay = replayShare(share, DEFAULT_SETTINGS);
+    expect(replay.players.map((p) => p.score)).toEqual([5, 50]);
+    expect(replay.target).toBe(200);
+  });
+
+  it("refuse the moves of a game that players joined during play", () => {
+    const s = play(applyAction(setup(), { type: "start" }), roll("Trotter", "Sider-Left"), hold, { type: "add_player", player: { id: "z", name: "Late", score: 0 } });
+    expect(() => encodeShare(s, true)).toThrow(/joined or left/);
+    expect(decodeShare(encodeShare(s, false))!.players).toHaveLength(3);
+  });
+
+  it("reject broken rule changes", () => {
+    const hash = encodeShare(play(applyAction(setup(), { type: "start" }), roll("Trotter", "Sider-Left")), true);
+    const wire = JSON.parse(atob(hash.slice(SHARE_HASH_PREFIX.length).replace(/-/g, "+").replace(/_/g, "/")));
+    const relink = (c: unknown) => SHARE_HASH_PREFIX + btoa(JSON.stringify({ ...wire, c }));
+    expect(decodeShare(relink([[1, { makinBacon: false }]]))!.moves!.map((m) => m.type)).toEqual(["roll", "set_rules"]);
+    expect(() => decodeShare(relink([[2, { makinBacon: false }]]))).toThrow(/rule changes/);
+    expect(() => decodeShare(relink([[0, { makinBacon: "yes" }]]))).toThrow(/rule changes/);
+    expect(() => decodeShare(relink([[0, { weights: { Trotter: -1 } }]]))).toThrow(/weights are broken/);
+    expect(() => decodeShare(relink([[0, { soundEffects: true }]]))).toThrow(/rule changes/);
+  });
+
+  it("ignores other hashes and reports damaged links", () => {
+    expect(decodeShare("")).toBeNull();
+    expect(decodeShare("#section")).toBeNull();
+    expect(() => decodeShare(`${SHARE_HASH_PREFIX}not-base64!`)).toThrow(/damaged/);
+  });
+
+  it("clamp the target and reject weights the editor would not accept", () => {
+    const hash = encodeShare(setup(), false);
+    const wire = JSON.parse(atob(hash.slice(SHARE_HASH_PREFIX.length).replace(/-/g, "+").replace(/_/g, "/")));
+    const relink = (change: object) => SHARE_HASH_PREFIX + btoa(JSON.stringify({ ...wire, ...change }));
+    expect(decodeShare(relink({ t: -40 }))!.target).toBe(10);
+    expect(() => decodeShare(relink({ t: "far" }))).toThrow(/damaged/);
+    expect(() => decodeShare(relink({ w: wire.w.map((x: number, i: number) => (i === 3 ? -8 : x)) }))).toThrow(/weights are broken/);
+    expect(() => decodeShare(relink({ w: wire.w.map((x: number, i: number) => (i < 6 ? 0 : x)) }))).toThrow(/weights are broken/);
+    expect(() => decodeShare(relink({ w: wire.w.map((x: number, i: number) => (i === 0 ? null : x)) }))).toThrow(/weights are broken/);
+  });
+
+  it("rejects players that are not a name and a known computer strategy", () => {
+    const hash = encodeShare(setup(), false);
+    const wire = JSON.parse(atob(hash.slice(SHARE_HASH_PREFIX.length).replace(/-/g, "+").replace(/_/g, "/")));
+    const relink = (p: unknown) => SHARE_HASH_PREFIX + btoa(JSON.stringify({ ...wire, p }));
+    expect(decodeShare(relink([["Ann"], ["Robo", "race", 20]]))!.players).toEqual([{ name: "Ann" }, { name: "Robo", bot: { strategy: "race", holdAt: 20 } }]);
+    expect(() => decodeShare(relink([[{ x: 1 }], [{ y: 2 }]]))).toThrow(/damaged/);
+    expect(() => decodeShare(relink([["Ann"], ["Robo", "cheat", 20]]))).toThrow(/damaged/);
+    expect(() => decodeShare(relink([["Ann"], ["Robo", "hold_at_n", -5]]))).toThrow(/damaged/);
+    expect(() => decodeShare(relink([["Ann"], ["Robo", "hold_at_n"]]))).toThrow(/damaged/);
+  });
+
+  it("accepts a complete custom rule set and rejects a broken one", () => {
+    const custom = { ...OFFICIAL_1977, id: "house", name: "House rules", doubleMultiplier: 3 };
+    const hash = encodeShare({ ...setup(), settings: { ...setup().settings, ruleSet: custom } }, false);
+    expect(decodeShare(hash)!.settings.ruleSet).toEqual(custom);
+    const wire = JSON.parse(atob(hash.slice(SHARE_HASH_PREFIX.length).replace(/-/g, "+").replace(/_/g, "/")));
+    const relink = (r: unknown) => SHARE_HASH_PREFIX + btoa(JSON.stringify({ ...wire, r }));
+    const { doubleMultiplier: _m, ...noMultiplier } = custom;
+    expect(() => decodeShare(relink(noMultiplier))).toThrow(/rule set is unknown/);
+    expect(() => decodeShare(relink({ ...custom, doubleOverrides: { Snouter: "lots" } }))).toThrow(/rule set is unknown/);
+    expect(() => decodeShare(relink({ ...custom, pigOut: "shrug" }))).toThrow(/rule set is unknown/);
+  });
+});
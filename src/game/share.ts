@@ -0,0 +1,296 @@
+// ---------------------------------------------
+// Shareable links: a game's setup (rules, weights, target, players) and
+// optionally its moves, packed into a URL hash. No backend involved.
+// ---------------------------------------------
+
+import { BOT_STRATEGIES } from "./bots";
+import { applyAction, clampTarget, createInitialState, reduceAction } from "./engine";
+import { resolveLog } from "./log";
+import { pairWeightsAreValid, validatePairWeights, validateWeights, weightsAreValid } from "./presets";
+import { RULE_SETS } from "./rules";
+import { isRuleSet } from "./schema";
+import { PIG_POSES } from "./scoring";
+import type { BotConfig, ContactOutcome, GameAction, GameRules, GameSettings, GameState, OutcomeWeights, PairWeights, Player, RuleSet } from "./types";
+
+export const SHARE_HASH_PREFIX = "#share=";
+const SHARE_VERSION = 1;
+
+// Settings that describe the game itself. Confetti, sounds and the like are
+// personal and stay as the recipient has them.
+export type SharedSettings = Pick<GameSettings, "weights" | "pairWeights" | "makinBacon" | "piggyback" | "tieBreak"> & {
+  ruleSet: RuleSet;
+};
+
+export type SharePayload = {
+  target: number;
+  settings: SharedSettings;
+  players: { name: string; bot?: BotConfig }[];
+  seed: number;
+  moves: GameAction[] | null; // rolls, holds, passes and rule / target changes; null for a setup-only link
+  startedAt: number; // time of the first move, reused for every replayed move
+};
+
+// Wire format, kept short: preset rule sets travel as their id, moves as a
+// string of tokens (two pose digits per roll, m/y suffix for Makin' Bacon /
+// Piggyback, h = hold, p = pass). Rule and target changes made during the
+// game go in `c`, each after the number of moves played before it.
+type Wire = {
+  v: number;
+  t: number;
+  w: number[];
+  j?: number[]; // two-pig table, row by row
+  r: string | RuleSet;
+  f: [number, number, number]; // makinBacon, piggyback, shared tie
+  p: ([string] | [string, string, number])[];
+  s: number;
+  m?: string;
+  c?: [number, number | Partial<GameRules>][]; // new target, or rule changes
+  a?: number;
+};
+
+const CONTACT_CODES: Record<ContactOutcome, string> = { "Makin' Bacon": "m", Piggyback: "y" };
+const WEIGHT_KEYS = [...PIG_POSES, "Makin' Bacon", "Piggyback"] as (keyof OutcomeWeights)[];
+
+const toBase64Url = (text: string) => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+// One entry of the players list: a name, plus the strategy and hold-at of a computer player
+function readPlayer(p: unknown): { name: string; bot?: BotConfig } {
+  if (!Array.isArray(p) || typeof p[0] !== 'string') throw new Error("the link is damaged or incomplete");
+  const [name, strategy, holdAt] = p;
+  if (strategy === undefined) return { name };
+  if (!BOT_STRATEGIES.some((b) => b.id === strategy) || !Number.isInteger(holdAt) || holdAt <= 0) {
+    throw new Error("the link is damaged or incomplete");
+  }
+  return { name, bot: { strategy, holdAt } };
+}
+
+const numberOrNaN = (x: unknown) => (typeof x === 'number' ? x : NaN);
+
+// Weights and the two-pig table pass the same checks as in the editor
+function readWeights(w: unknown): OutcomeWeights {
+  if (!Array.isArray(w) || w.length !== WEIGHT_KEYS.length) throw new Error("the link is missing its players or weights");
+  const weights = Object.fromEntries(WEIGHT_KEYS.map((k, i) => [k, numberOrNaN(w[i])])) as OutcomeWeights;
+  if (!weightsAreValid(validateWeights(weights))) throw new Error("the link's weights are broken");
+  return weights;
+}
+
+function readPairWeights(j: unknown): PairWeights {
+  if (!Array.isArray(j) || j.length !== PIG_POSES.length ** 2) throw new Error("the link's two-pig table is broken");
+  const pairWeights = Object.fromEntries(
+    PIG_POSES.map((a, i) => [a, Object.fromEntries(PIG_POSES.map((b, k) => [b, numberOrNaN(j[i * PIG_POSES.length + k])]))])
+  ) as PairWeights;
+  if (!pairWeightsAreValid(validatePairWeights(pairWeights))) throw new Error("the link's two-pig table is broken");
+  return pairWeights;
+}
+
+const field = (x: unknown, key: string): unknown => (x && typeof x === 'object' ? (x as Record<string, unknown>)[key] : undefined);
+
+// A rule change as logged by set_rules, checked like the setup
+function readRules(x: unknown): Partial<GameRules> {
+  const broken = () => new Error("the link's rule changes are broken");
+  if (!x || typeof x !== 'object' || Array.isArray(x)) throw broken();
+  const rules: Partial<GameRules> = {};
+  for (const [key, value] of Object.entries(x)) {
+    switch (key) {
+      case "weights":
+        rules.weights = readWeights(WEIGHT_KEYS.map((k) => field(value, k)));
+        break;
+      case "pairWeights":
+        rules.pairWeights = value === null ? null : readPairWeights(PIG_POSES.flatMap((a) => PIG_POSES.map((b) => field(field(value, a), b))));
+        break;
+      case "ruleSet":
+        if (!isRuleSet(value)) throw new Error("the link's rule set is unknown");
+        rules.ruleSet = value;
+        break;
+      case "makinBacon":
+      case "piggyback":
+        if (typeof value !== 'boolean') throw broken();
+        rules[key] = value;
+        break;
+      case "tieBreak":
+        if (value !== "sudden_death" && value !== "shared") throw broken();
+        rules.tieBreak = value;
+        break;
+      default:
+        throw broken();
+    }
+  }
+  return rules;
+}
+
+// Put the rule and target changes back between the moves they came after
+function withChanges(moves: GameAction[], changes: unknown): GameAction[] {
+  if (changes === undefined) return moves;
+  const broken = () => new Error("the link's rule changes are broken");
+  if (!Array.isArray(changes)) throw broken();
+  const out: GameAction[] = [];
+  let played = 0;
+  for (const change of changes) {
+    if (!Array.isArray(change) || !Number.isInteger(change[0]) || change[0] < played || change[0] > moves.length) throw broken();
+    out.push(...moves.slice(played, change[0]));
+    played = change[0];
+    const what: unknown = change[1];
+    if (typeof what === 'number') {
+      if (!Number.isFinite(what)) throw broken();
+      out.push({ type: "set_target", target: clampTarget(what) });
+    } else {
+      out.push({ type: "set_rules", rules: readRules(what) });
+    }
+  }
+  return [...out, ...moves.slice(played)];
+}
+
+const fromBase64Url = (code: string) => {
+  const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+export function encodeMoves(moves: GameAction[]): string {
+  return moves
+    .map((a) => {
+      switch (a.type) {
+        case "roll":
+          return `${PIG_POSES.indexOf(a.pigs[0])}${PIG_POSES.indexOf(a.pigs[1])}${a.contact ? CONTACT_CODES[a.contact] : ""}`;
+        case "hold":
+          return "h";
+        case "pass_pigs":
+          return "p";
+        default:
+          return "";
+      }
+    })
+    .join("");
+}
+
+export function decodeMoves(code: string, timestamp: number): GameAction[] {
+  const moves: GameAction[] = [];
+  for (let i = 0; i < code.length; i++) {
+    const c = code[i];
+    if (c === "h") moves.push({ type: "hold", timestamp });
+    else if (c === "p") moves.push({ type: "pass_pigs", timestamp });
+    else {
+      const a = PIG_POSES[Number(c)];
+      const b = PIG_POSES[Number(code[i + 1])];
+      if (!a || !b) throw new Error(`bad move at position ${i}`);
+      i++;
+      const contact = (Object.keys(CONTACT_CODES) as ContactOutcome[]).find((k) => CONTACT_CODES[k] === code[i + 1]);
+      if (contact) i++;
+      moves.push(contact ? { type: "roll", pigs: [a, b], contact } : { type: "roll", pigs: [a, b] });
+    }
+  }
+  return moves;
+}
+
+// What a game link plays: the setup as it stood when the game started, then
+// the moves and the rule and target changes made along the way. Null when
+// players joined or left once it was under way, as the seats would not line up.
+function playedGame(s: GameState): { setup: GameState; moves: GameAction[] } | null {
+  const resolved = resolveLog(s.log);
+  if (!resolved) return { setup: s, moves: [] };
+  let state = resolved.base;
+  let setup: GameState | null = state.started ? state : null;
+  const moves: GameAction[] = [];
+  for (const action of resolved.applied) {
+    state = reduceAction(state, action);
+    if (!setup) {
+      if (state.started) setup = state;
+      continue;
+    }
+    switch (action.type) {
+      case "roll":
+      case "hold":
+      case "pass_pigs":
+      case "set_rules":
+      case "set_target":
+        moves.push(action);
+        break;
+      case "add_player":
+      case "remove_player":
+        return null;
+    }
+  }
+  return { setup: setup ?? s, moves };
+}
+
+// Build the hash for a game. With `includeMoves` the link replays the game;
+// throws if its moves cannot be shared (see playedGame).
+export function encodeShare(game: GameState, includeMoves: boolean): string {
+  const played = includeMoves ? playedGame(game) : null;
+  if (includeMoves && !played) throw new Error("players joined or left during this game, so its moves cannot be shared");
+  const s = played?.setup ?? game;
+  const preset = RULE_SETS.find((r) => JSON.stringify(r) === JSON.stringify(s.settings.ruleSet));
+  const wire: Wire = {
+    v: SHARE_VERSION,
+    t: s.target,
+    w: WEIGHT_KEYS.map((k) => s.settings.weights[k]),
+    r: preset ? preset.id : s.settings.ruleSet,
+    f: [Number(s.settings.makinBacon), Number(s.settings.piggyback), Number(s.settings.tieBreak === "shared")],
+    p: s.players.map((p) => (p.bot ? [p.name, p.bot.strategy, p.bot.holdAt] : [p.name])),
+    s: s.seed,
+  };
+  if (s.settings.pairWeights) wire.j = PIG_POSES.flatMap((a) => PIG_POSES.map((b) => s.settings.pairWeights![a][b]));
+  if (played) {
+    wire.m = encodeMoves(played.moves);
+    const changes: [number, number | Partial<GameRules>][] = [];
+    let count = 0;
+    for (const a of played.moves) {
+      if (a.type === "set_target") changes.push([count, a.target]);
+      else if (a.type === "set_rules") changes.push([count, a.rules]);
+      else count++;
+    }
+    if (changes.length > 0) wire.c = changes;
+    wire.a = game.scoreHistory[0]?.timestamp ?? 0;
+  }
+  return SHARE_HASH_PREFIX + toBase64Url(JSON.stringify(wire));
+}
+
+// Read a hash made by encodeShare. Returns null if the hash is not a share
+// link; throws if it is one but cannot be read.
+export function decodeShare(hash: string): SharePayload | null {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  let wire: Wire;
+  try {
+    wire = JSON.parse(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)));
+  } catch {
+    throw new Error("the link is damaged or incomplete");
+  }
+  if (!wire || wire.v !== SHARE_VERSION) throw new Error("the link was made by a different version of the game");
+  const ruleSet = typeof wire.r === 'string' ? RULE_SETS.find((r) => r.id === wire.r) : wire.r;
+  if (!isRuleSet(ruleSet)) throw new Error("the link's rule set is unknown");
+  if (!Array.isArray(wire.p) || wire.p.length < 2) throw new Error("the link is missing its players or weights");
+  if (typeof wire.t !== 'number' || !Number.isFinite(wire.t)) throw new Error("the link is damaged or incomplete");
+  const startedAt = typeof wire.a === 'number' ? wire.a : 0;
+  return {
+    target: clampTarget(wire.t),
+    settings: {
+      weights: readWeights(wire.w),
+      pairWeights: wire.j === undefined ? null : readPairWeights(wire.j),
+      ruleSet,
+      makinBacon: Boolean(wire.f?.[0]),
+      piggyback: Boolean(wire.f?.[1]),
+      tieBreak: wire.f?.[2] ? "shared" : "sudden_death",
+    },
+    players: wire.p.map(readPlayer),
+    seed: Number(wire.s) || 0,
+    moves: typeof wire.m === 'string' ? withChanges(decodeMoves(wire.m, startedAt), wire.c) : null,
+    startedAt,
+  };
+}
+
+// A fresh, unstarted game with the shared setup. `makeId` names the players
+// and `settings` supplies the recipient's own cosmetic preferences.
+export function adoptShare(share: SharePayload, settings: GameSettings, seed: number, makeId: () => string): GameState {
+  const players: Player[] = share.players.map((p) => ({ id: makeId(), name: p.name, score: 0, ...(p.bot ? { bot: p.bot } : {}) }));
+  return createInitialState(players, share.target, { ...settings, ...share.settings }, seed);
+}
+
+// Play the shared moves from the shared setup (player ids are the seat numbers)
+export function replayShare(share: SharePayload, settings: GameSettings): GameState {
+  const players: Player[] = share.players.map((p, i) => ({ id: `p${i}`, name: p.name, score: 0, ...(p.bot ? { bot: p.bot } : {}) }));
+  const start = applyAction(createInitialState(players, share.target, { ...settings, ...share.settings }, share.seed), { type: "start" });
+  return (share.moves ?? []).reduce(applyAction, start);
+}
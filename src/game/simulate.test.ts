@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "./engine";
+import { simulate, strategyLabel } from "./simulate";
+import type { SimulationConfig } from "./simulate";
+
+const config = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+  strategies: [
+    { strategy: "hold_at_20", holdAt: 25 },
+    { strategy: "hold_at_n", holdAt: 1 },
+  ],
+  games: 100,
+  target: 100,
+  settings: DEFAULT_SETTINGS,
+  seed: 7,
+  ...overrides,
+});
+
+describe("simulate", () => {
+  it("gives the same result for the same seed", () => {
+    expect(simulate(config())).toEqual(simulate(config()));
+    expect(simulate(config({ seed: 8 }))).not.toEqual(simulate(config()));
+  });
+
+  it("finishes every game and shares the wins between the seats", () => {
+    const result = simulate(config());
+    expect(result.games).toBe(100);
+    expect(result.unfinished).toBe(0);
+    const wins = result.seats.reduce((a, s) => a + s.wins, 0);
+    expect(wins).toBeLessThanOrEqual(100);
+    expect(wins).toBeGreaterThan(90);
+    for (const seat of result.seats) expect(seat.winRate).toBeCloseTo(seat.wins / 100);
+  });
+
+  it("lets a sensible strategy beat one that banks every single point", () => {
+    const [sensible, timid] = simulate(config()).seats;
+    expect(sensible.winRate).toBeGreaterThan(0.8);
+    expect(sensible.avgRollsPerTurn).toBeGreaterThan(timid.avgRollsPerTurn);
+  });
+
+  it("labels Hold at N with its threshold", () => {
+    expect(strategyLabel({ strategy: "hold_at_n", holdAt: 35 })).toBe("Hold at 35");
+    expect(strategyLabel({ strategy: "race", holdAt: 25 })).toBe("Race to target");
+  });
+});
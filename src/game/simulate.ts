@@ -0,0 +1,157 @@
+// ---------------------------------------------
+// Headless Monte Carlo simulator: plays whole games between bot strategies
+// through the engine and summarises what happened. Runs in the browser or Node.
+// ---------------------------------------------
+
+import { BOT_STRATEGIES, chooseBotMove } from "./bots";
+import { createInitialState, drawSeededRoll, getWinner, isGameOver, reduceAction } from "./engine";
+import type { BotConfig, GameAction, GameSettings, GameState } from "./types";
+
+export type SimulationConfig = {
+  strategies: BotConfig[]; // one seat per entry
+  games: number;
+  target: number;
+  settings: GameSettings; // weights, rule set and variants are used
+  seed: number; // game i is played with seed + i
+  rotateSeats?: boolean; // rotate who goes first each game (default true)
+  maxTurns?: number; // safety cap on rounds per game (default 500)
+};
+
+export type Distribution = {
+  mean: number;
+  min: number;
+  p10: number;
+  median: number;
+  p90: number;
+  max: number;
+};
+
+export type StrategyStats = {
+  seat: number;
+  label: string;
+  bot: BotConfig;
+  wins: number;
+  winRate: number;
+  turns: number; // turns this seat took over all games
+  pigOutRate: number; // share of turns that ended without banking
+  avgRollsPerTurn: number;
+  avgPointsPerTurn: number; // banked points per turn (0 for failed turns)
+  finalScores: Distribution;
+};
+
+export type SimulationResult = {
+  games: number;
+  seats: StrategyStats[];
+  rounds: Distribution; // game length in rounds (turn numbers)
+  finalRoundRate: number; // share of games that reached a Final Round
+  finalRoundComebackRate: number; // share of Final Round games not won by the trigger player
+  unfinished: number; // games stopped by maxTurns
+};
+
+function distribution(values: number[]): Distribution {
+  if (values.length === 0) return { mean: 0, min: 0, p10: 0, median: 0, p90: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    mean: sorted.reduce((a, v) => a + v, 0) / sorted.length,
+    min: sorted[0],
+    p10: at(0.1),
+    median: at(0.5),
+    p90: at(0.9),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export function strategyLabel(bot: BotConfig): string {
+  if (bot.strategy === "hold_at_n") return `Hold at ${bot.holdAt}`;
+  return BOT_STRATEGIES.find((b) => b.id === bot.strategy)?.name ?? bot.strategy;
+}
+
+// Play one full game of bots. Uses the bare reducer, so no action log is
+// kept; `onAction` sees each action with the state it was applied to.
+export function playBotGame(
+  start: GameState,
+  maxTurns = 500,
+  onAction?: (s: GameState, action: GameAction) => void
+): GameState {
+  let s: GameState = reduceAction(start, { type: "start" });
+  while (!isGameOver(s) && s.currentTurnNumber <= maxTurns) {
+    const bot = s.players[s.currentIndex].bot;
+    if (!bot) break; // only bots can be simulated
+    const move = chooseBotMove(s, bot);
+    const action: GameAction = move === "roll" ? drawSeededRoll(s) : { type: move, timestamp: 0 };
+    onAction?.(s, action);
+    s = reduceAction(s, action);
+  }
+  return s;
+}
+
+export function simulate(config: SimulationConfig): SimulationResult {
+  const seats = config.strategies.length;
+  const rotate = config.rotateSeats ?? true;
+  const maxTurns = config.maxTurns ?? 500;
+
+  const wins = new Array(seats).fill(0);
+  const turns = new Array(seats).fill(0);
+  const failedTurns = new Array(seats).fill(0);
+  const rolls = new Array(seats).fill(0);
+  const banked = new Array(seats).fill(0);
+  const finalScores: number[][] = Array.from({ length: seats }, () => []);
+  const rounds: number[] = [];
+  let finalRounds = 0;
+  let comebacks = 0;
+  let unfinished = 0;
+
+  for (let g = 0; g < config.games; g++) {
+    // Player ids are the seat numbers so results map back after rotation
+    const offset = rotate ? g % seats : 0;
+    const order = Array.from({ length: seats }, (_, i) => (i + offset) % seats);
+    const players = order.map((seat) => ({
+      id: String(seat),
+      name: strategyLabel(config.strategies[seat]),
+      score: 0,
+      bot: config.strategies[seat],
+    }));
+    const start = createInitialState(players, config.target, config.settings, config.seed + g);
+    const end = playBotGame(start, maxTurns, (s, action) => {
+      if (action.type === "roll") rolls[Number(s.players[s.currentIndex].id)]++;
+    });
+
+    if (!isGameOver(end)) unfinished++;
+    rounds.push(end.currentTurnNumber);
+    const winner = getWinner(end);
+    if (winner) wins[Number(winner.id)]++;
+    if (end.finalRound) {
+      finalRounds++;
+      const trigger = end.finalLeaderIndex !== null ? end.players[end.finalLeaderIndex] : null;
+      if (winner && trigger && winner.id !== trigger.id) comebacks++;
+    }
+    for (const p of end.players) finalScores[Number(p.id)].push(p.score);
+    for (const e of end.scoreHistory) {
+      const seat = Number(e.playerId);
+      turns[seat]++;
+      if (e.action !== "hold" && e.pointsEarned <= 0) failedTurns[seat]++;
+      banked[seat] += Math.max(0, e.pointsEarned);
+    }
+  }
+
+  return {
+    games: config.games,
+    seats: config.strategies.map((bot, seat) => ({
+      seat,
+      label: strategyLabel(bot),
+      bot,
+      wins: wins[seat],
+      winRate: config.games ? wins[seat] / config.games : 0,
+      turns: turns[seat],
+      pigOutRate: turns[seat] ? failedTurns[seat] / turns[seat] : 0,
+      avgRollsPerTurn: turns[seat] ? rolls[seat] / turns[seat] : 0,
+      avgPointsPerTurn: turns[seat] ? banked[seat] / turns[seat] : 0,
+      finalScores: distribution(finalScores[seat]),
+    })),
+    rounds: distribution(rounds),
+    finalRoundRate: config.games ? finalRounds / config.games : 0,
+    finalRoundComebackRate: finalRounds ? comebacks / finalRounds : 0,
+    unfinished,
+  };
+}
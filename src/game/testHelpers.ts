@@ -0,0 +1,23 @@
+// ---------------------------------------------
+// Fixtures shared by the engine's tests: games built up move by move.
+// ---------------------------------------------
+
+import { applyAction, createInitialState, DEFAULT_SETTINGS } from "./engine";
+import type { GameAction, GameSettings, GameState, PigPose, Player } from "./types";
+
+export const play = (s: GameState, ...actions: GameAction[]) => actions.reduce(applyAction, s);
+export const roll = (a: PigPose, b: PigPose): GameAction => ({ type: "roll", pigs: [a, b] });
+export const holdAt = (timestamp: number): GameAction => ({ type: "hold", timestamp });
+export const passAt = (timestamp: number): GameAction => ({ type: "pass_pigs", timestamp });
+export const hold = holdAt(1);
+export const pass = passAt(1);
+export const pigOut = roll("Sider-Left", "Sider-Right");
+
+export const ANN_AND_BOB: Player[] = [
+  { id: "a", name: "Ann", score: 0 },
+  { id: "b", name: "Bob", score: 0 },
+];
+
+// A started game, seed 1
+export const started = (target = 100, settings: GameSettings = DEFAULT_SETTINGS, players: Player[] = ANN_AND_BOB): GameState =>
+  applyAction(createInitialState(players, target, settings, 1), { type: "start" });
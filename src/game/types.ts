@@ -0,0 +1,213 @@
+// ---------------------------------------------
+// Shared game types (no React, no DOM)
+// ---------------------------------------------
+
+export type PigPose =
+  | "Sider-Left"
+  | "Sider-Right"
+  | "Razorback"
+  | "Trotter"
+  | "Snouter"
+  | "Leaning Jowler";
+
+// Outcomes where the two pigs land in contact instead of on separate poses.
+// "Makin' Bacon" (called "Oinker" in the 1977 rules): pigs touching.
+// "Piggyback": one pig resting on top of the other.
+export type ContactOutcome = "Makin' Bacon" | "Piggyback";
+
+export type OutcomeWeights = Record<PigPose | ContactOutcome, number>;
+
+// Weights for each (first pig, second pig) pose pair, for pigs that do not
+// land independently of each other. Only the proportions matter.
+export type PairWeights = Record<PigPose, Record<PigPose, number>>;
+
+// What a roll is drawn from. `pairWeights` is missing from fair-roll proofs
+// made before joint tables existed.
+export type RollTable = Pick<GameSettings, "weights" | "makinBacon" | "piggyback"> & { pairWeights?: PairWeights | null };
+
+// Settings that decide how the game plays out. Changing them is a logged
+// action (set_rules), so undo and replays score every roll by the rules in
+// force when it was made.
+export type GameRules = Pick<GameSettings, "weights" | "pairWeights" | "ruleSet" | "makinBacon" | "piggyback" | "tieBreak">;
+
+// A named weight table the player saved, e.g. one fitted to their own pigs
+// (see calibrate.ts)
+export type WeightPreset = {
+  id: string;
+  name: string;
+  weights: OutcomeWeights;
+  createdAt: number;
+};
+
+export type DiePig = { pose: PigPose };
+
+// Commit-reveal record of a fair roll (see fairDice.ts): everyone's
+// commitment and the nonce they revealed, plus the table the poses were
+// drawn from, so the roll can be checked again later.
+export type RollProof = {
+  participants: { who: string; commitment: string; nonce: string }[];
+  table: RollTable;
+};
+
+export type Roll = {
+  pigs: [DiePig, DiePig];
+  points: number;
+  event: string;
+  contact?: ContactOutcome; // set when the pigs touched/stacked; poses are then ignored
+  proof?: RollProof; // fair rolls only
+  entered?: boolean; // physical pigs, picked by hand in score-keeper mode
+};
+
+export type BotStrategy = "hold_at_20" | "hold_at_n" | "race" | "optimal";
+
+export type BotConfig = {
+  strategy: BotStrategy;
+  holdAt: number; // turn points to bank at (hold_at_n only)
+};
+
+export type Player = {
+  id: string;
+  name: string;
+  score: number;
+  eliminated?: boolean; // knocked out by a Piggyback
+  bot?: BotConfig; // computer-controlled when set
+  profileId?: string; // saved profile this seat's results count towards
+};
+
+export type ScoreEntry = {
+  playerId: string;
+  playerName: string;
+  turnNumber: number;
+  previousScore: number;
+  newScore: number;
+  pointsEarned: number;
+  action: 'hold' | 'pass_pigs' | 'makin_bacon' | 'piggyback';
+  timestamp: number;
+  rolls?: Roll[]; // every roll of the turn (missing in saves from before profiles)
+};
+
+// Lifetime totals for a saved player. Rates and averages are derived from
+// these counts (see profiles.ts) so matches can simply be added on.
+export type ProfileStats = {
+  gamesPlayed: number;
+  wins: number;
+  turns: number;
+  pointsBanked: number;
+  pigOuts: number; // turns that ended in a Pig Out
+  bestTurn: number; // most points banked in a single turn
+  rolls: number;
+  poseCounts: Record<PigPose, number>; // one count per pig, contact rolls excluded
+};
+
+export type Profile = {
+  id: string;
+  name: string;
+  createdAt: number;
+  stats: ProfileStats;
+};
+
+// A finished game kept in the Past Games archive. `log` is the full action
+// log (every roll included), so the game can be rebuilt with replayLog.
+export type ArchivedMatch = {
+  id: string; // matchKey() of the game
+  finishedAt: number;
+  target: number;
+  players: Player[]; // final scores
+  settings: GameSettings;
+  winnerIds: string[]; // several after a shared win
+  overtime: number;
+  scoreHistory: ScoreEntry[];
+  log: LogEntry[];
+};
+
+// Everything kept under the profiles storage key
+export type ProfileStore = {
+  profiles: Profile[];
+  recordedMatches: string[]; // matchKey()s already counted, newest last
+};
+
+// A scoring table the engine reads. Presets live in rules.ts; the chosen one
+// is copied into settings so saved games keep the rules they were played with.
+export type RuleSet = {
+  id: string;
+  name: string;
+  description: string;
+  poseValues: Record<PigPose, number>; // siders are 0 here and scored via siderPoints
+  siderPoints: number; // same-side siders
+  doubleMultiplier: number; // Double = (a + b) × multiplier
+  doubleOverrides: Partial<Record<PigPose, number>>; // fixed scores for specific doubles
+  mixedPair: "sum" | "higher"; // two different specials: add them, or take the higher
+  pigOut: "lose_turn" | "bank_turn"; // what happens to turn points on a Pig Out
+  // Variant switches applied when the preset is picked (still editable in Settings)
+  variants: { makinBacon: boolean; piggyback: boolean };
+};
+
+export type GameSettings = {
+  weights: OutcomeWeights;
+  pairWeights: PairWeights | null; // joint table for the two pigs; null draws each pig from `weights`
+  ruleSet: RuleSet;
+  makinBacon: boolean; // pigs touching wipes the roller's banked score
+  piggyback: boolean; // stacked pigs knock the roller out of the game
+  confettiOnWin: boolean;
+  confettiOnSpecialRolls: boolean;
+  showRollHints: boolean;
+  soundEffects: boolean;
+  showPoseBadges: boolean;
+  fastRollMode: boolean;
+  botSpeed: "slow" | "normal" | "fast"; // pause before each computer move
+  tieBreak: "sudden_death" | "shared"; // what happens on a tie after the Final Round
+  fairDice: boolean; // online rooms draw rolls by commit-reveal between all seated players
+  scoreKeeper: boolean; // real pigs on the table: rolls are entered with a pose picker
+};
+
+export type GameState = {
+  schemaVersion: number; // save format version, see schema.ts
+  started: boolean;
+  target: number;
+  players: Player[];
+  currentIndex: number;
+  turnPoints: number;
+  history: Roll[]; // current-turn history
+  scoreHistory: ScoreEntry[]; // track all score changes over turns
+  currentTurnNumber: number;
+  settings: GameSettings;
+  // Seeded RNG: same seed + same actions → same poses
+  seed: number;
+  rngState: number; // generator state, advanced on every roll
+  // Append-only record of everything done this match (see log.ts)
+  log: LogEntry[];
+  // Final-round state
+  finalRound: boolean; // true once someone Holds >= target
+  finalLeaderIndex: number | null; // who triggered final round
+  finalLeaderScore: number; // score to beat
+  finalTurns: Record<string, boolean> | null; // playerId -> took last chance
+  overtime: number; // sudden-death rounds started after a tied Final Round (0 = none)
+  // Pass the pigs state
+  needsToPassPigs: boolean; // true when player needs to click "Pass the Pigs" after getting pigs out
+};
+
+// Actions the engine understands. Rolls carry the already-drawn poses so the
+// engine itself never needs a random source; `rngState` is the seeded
+// generator's state after the draw, so replaying a roll restores it.
+export type GameAction =
+  | { type: "roll"; pigs: [PigPose, PigPose]; contact?: ContactOutcome; rngState?: number; proof?: RollProof; entered?: boolean }
+  | { type: "hold"; timestamp: number }
+  | { type: "pass_pigs"; timestamp: number }
+  // Setup / player edits
+  | { type: "start" }
+  | { type: "add_player"; player: Player }
+  | { type: "remove_player"; playerId: string }
+  | { type: "rename_player"; playerId: string; name: string }
+  | { type: "set_bot"; playerId: string; bot: BotConfig | null }
+  | { type: "set_profile"; playerId: string; profileId: string | null }
+  | { type: "set_target"; target: number }
+  | { type: "set_seed"; seed: number }
+  | { type: "set_rules"; rules: Partial<GameRules> };
+
+// One line of the action log. A log always opens with `new_game`, holding the
+// state the match started from; undo/redo are recorded rather than erasing.
+export type LogEntry =
+  | { type: "new_game"; state: GameState }
+  | GameAction
+  | { type: "undo" }
+  | { type: "redo" };
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { commitTo, makeNonce } from "@/game/fairDice";
+import { allCommitted, seatOf } from "@/game/room";
+import type { ClientMessage, OnlineMove, RoomView, ServerMessage } from "@/game/room";
+import type { GameState } from "@/game/types";
+import { connectToTabs } from "@/lib/tabs";
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+export type OnlineStatus = "offline" | "connecting" | "connected";
+
+// Where the room lives: on the room server, or in a host tab of this browser
+export type RoomTransport = "server" | "tabs";
+
+export type RoomConnection = {
+  send: (message: ClientMessage) => void;
+  close: () => void; // leaves the room; no onClose call
+};
+
+export type ConnectionHandlers = {
+  onOpen: () => void;
+  onMessage: (message: ServerMessage) => void;
+  onClose: (error: string) => void; // the connection dropped on its own
+};
+
+// ?server=ws://host:port overrides the room server; by default it runs next
+// to the page (see server/index.ts)
+export function roomServerUrl(): string {
+  const override = new URLSearchParams(window.location.search).get("server");
+  return override ?? `ws://${window.location.hostname || "localhost"}:${DEFAULT_SERVER_PORT}`;
+}
+
+function connectToServer(url: string, handlers: ConnectionHandlers): RoomConnection {
+  const ws = new WebSocket(url);
+  const pending: ClientMessage[] = [];
+  let opened = false;
+  let closing = false;
+  ws.onopen = () => {
+    opened = true;
+    handlers.onOpen();
+    for (const m of pending.splice(0)) ws.send(JSON.stringify(m));
+  };
+  ws.onmessage = (e) => handlers.onMessage(JSON.parse(e.data));
+  ws.onclose = () => {
+    if (!closing) handlers.onClose(opened ? "Lost the connection to the room server" : `Could not reach the room server at ${url}`);
+  };
+  return {
+    send: (message) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+      else pending.push(message);
+    },
+    close: () => {
+      closing = true;
+      ws.close();
+    },
+  };
+}
+
+// Connection to a room. Connects on the first create/join and drops the
+// connection (and the room) on leave.
+export function useOnlineRoom() {
+  const connection = useRef<{ via: RoomTransport; link: RoomConnection } | null>(null);
+  const [status, setStatus] = useState<OnlineStatus>("offline");
+  const [via, setVia] = useState<RoomTransport>("server");
+  const [room, setRoom] = useState<RoomView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = (transport: RoomTransport) => {
+    connection.current?.link.close();
+    const handlers: ConnectionHandlers = {
+      onOpen: () => setStatus("connected"),
+      onMessage: (message) => {
+        if (message.type === "error") setError(message.message);
+        else setRoom(message.type === "room" ? message.room : null);
+      },
+      onClose: (reason) => {
+        connection.current = null;
+        setStatus("offline");
+        setRoom(null);
+        setError(reason);
+      },
+    };
+    setStatus("connecting");
+    setVia(transport);
+    setRoom(null);
+    const link = transport === "tabs" ? connectToTabs(handlers) : connectToServer(roomServerUrl(), handlers);
+    connection.current = { via: transport, link };
+    return link;
+  };
+
+  // Room messages go over the current connection; create/join may pick another
+  const send = (message: ClientMessage, transport?: RoomTransport) => {
+    setError(null);
+    const current = connection.current;
+    const link = current && (!transport || current.via === transport) ? current.link : open(transport ?? "server");
+    link.send(message);
+  };
+
+  const leave = () => {
+    connection.current?.link.close();
+    connection.current = null;
+    setStatus("offline");
+    setRoom(null);
+  };
+
+  useEffect(() => () => connection.current?.link.close(), []);
+
+  // Fair dice: commit to a fresh nonce as soon as a roll starts, reveal it
+  // once everyone has committed. Nonces never leave this tab before that.
+  const nonces = useRef(new Map<string, string>()); // commitment → nonce
+  const committing = useRef(false);
+  useEffect(() => {
+    const round = room?.fairRound;
+    if (!room || !round?.participants.some((p) => p.id === room.you)) {
+      committing.current = false;
+      return;
+    }
+    const mine = round.commitments[room.you];
+    if (!mine) {
+      if (committing.current) return;
+      committing.current = true;
+      const nonce = makeNonce();
+      commitTo(nonce)
+        .then((commitment) => {
+          nonces.current.set(commitment, nonce);
+          send({ type: "commit", commitment });
+        })
+        // Without a commitment this seat sits the roll out and the host drops it
+        .catch((e) => setError(`Could not commit to a fair roll: ${e instanceof Error ? e.message : String(e)}`));
+      return;
+    }
+    committing.current = false;
+    const nonce = nonces.current.get(mine);
+    if (nonce && allCommitted(round) && !(room.you in round.nonces)) {
+      nonces.current.delete(mine); // reveal once
+      send({ type: "reveal", nonce });
+    }
+  }, [room]);
+
+  return {
+    status,
+    via,
+    room,
+    error,
+    mySeat: room ? seatOf(room, room.you) : null,
+    createRoom: (state: GameState, transport: RoomTransport) => send({ type: "create_room", state }, transport),
+    joinRoom: (code: string, transport: RoomTransport) => send({ type: "join_room", code }, transport),
+    takeSeat: (playerId: string | null) => send({ type: "take_seat", playerId }),
+    move: (move: OnlineMove) => send({ type: "move", move }),
+    leave,
+    clearError: () => setError(null),
+  };
+}
+
+export type OnlineRoom = ReturnType<typeof useOnlineRoom>;
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import type { SetStateAction } from "react";
+import { migrateGameState } from "@/game/schema";
+import type { GameState } from "@/game/types";
+import { randomSeed } from "@/lib/utils";
+
+// Local storage key. The save format version lives inside the save
+// (GameState.schemaVersion), so this key never needs to change.
+export const GAME_STORAGE_KEY = "pass-the-pigs-v1";
+// Saved player profiles, kept apart from the game so New Match never touches them
+export const PROFILES_STORAGE_KEY = "pass-the-pigs-profiles";
+// Finished games (Past Games)
+export const ARCHIVE_STORAGE_KEY = "pass-the-pigs-archive";
+// Saved outcome weight presets
+export const WEIGHT_PRESETS_STORAGE_KEY = "pass-the-pigs-weight-presets";
+
+// A save that could not be loaded. The raw text is kept so it can be
+// downloaded, and also copied to `backupKey` before it gets overwritten.
+export type LoadFailure = {
+  reason: string;
+  raw: string;
+  backupKey: string | null;
+};
+
+// Upgrade a parsed save to the current GameState (throws if unusable)
+export function migrateSavedGame(parsed: unknown): GameState {
+  return migrateGameState(parsed, { randomSeed });
+}
+
+function backupRaw(key: string, raw: string): string | null {
+  const backupKey = `${key}:backup:${Date.now()}`;
+  try {
+    localStorage.setItem(backupKey, raw);
+    return backupKey;
+  } catch {
+    return null;
+  }
+}
+
+// Persisted state hook with migration support. If the stored value cannot be
+// parsed or migrated, the hook starts from `initial`, backs up the raw text
+// and reports the problem as `loadFailure` instead of silently dropping it.
+//
+// Tabs share storage, so updates are applied to whatever is stored right now
+// rather than to this tab's copy, and other tabs' writes are picked up from
+// the `storage` event. Two tabs never undo each other's changes.
+export function useLocalState<T>(key: string, initial: T, migrate: (parsed: unknown) => T = (parsed) => parsed as T) {
+  const [loaded] = useState<{ value: T; raw: string | null; failure: LoadFailure | null }>(() => {
+    let raw: string | null = null;
+    try {
+      raw = localStorage.getItem(key);
+      if (!raw) return { value: initial, raw: null, failure: null };
+      return { value: migrate(JSON.parse(raw)), raw, failure: null };
+    } catch (e) {
+      if (raw === null) return { value: initial, raw: null, failure: null }; // storage unavailable
+      const reason = e instanceof Error ? e.message : String(e);
+      return { value: initial, raw, failure: { reason, raw, backupKey: backupRaw(key, raw) } };
+    }
+  });
+  const [value, setStoredValue] = useState<T>(loaded.value);
+  const [loadFailure, setLoadFailure] = useState<LoadFailure | null>(loaded.failure);
+  const current = useRef(loaded.value);
+  const lastRaw = useRef(loaded.raw); // the stored text this tab last read or wrote
+
+  // What another tab stored since then, if anything readable
+  const readNewer = (): { value: T } | null => {
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw === null || raw === lastRaw.current) return null;
+      const newer = { value: migrate(JSON.parse(raw)) };
+      lastRaw.current = raw;
+      return newer;
+    } catch {
+      return null; // keep ours; the next write replaces it
+    }
+  };
+
+  const write = (next: T) => {
+    current.current = next;
+    try {
+      const raw = JSON.stringify(next);
+      localStorage.setItem(key, raw);
+      lastRaw.current = raw;
+    } catch {}
+  };
+
+  const setValue = (update: SetStateAction<T>) => {
+    const base = (readNewer() ?? { value: current.current }).value;
+    const next = typeof update === "function" ? (update as (prev: T) => T)(base) : update;
+    write(next);
+    setStoredValue(next);
+  };
+
+  useEffect(() => {
+    const adoptNewer = () => {
+      const newer = readNewer();
+      if (!newer) return false;
+      current.current = newer.value;
+      setStoredValue(newer.value);
+      return true;
+    };
+    if (!adoptNewer()) write(current.current); // store the initial or migrated value
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === key) adoptNewer();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [key]);
+
+  return [value, setValue, loadFailure, () => setLoadFailure(null)] as const;
+}
@@ -0,0 +1,98 @@
+import { normalizeRoomCode } from "@/game/room";
+import type { ClientMessage, ServerMessage } from "@/game/room";
+import { createRoomHost } from "@/game/roomHost";
+import type { RoomHost } from "@/game/roomHost";
+import type { ConnectionHandlers, RoomConnection } from "@/lib/online";
+import { randomSeed } from "@/lib/utils";
+
+export const TAB_CHANNEL = "pass-the-pigs-tabs";
+const JOIN_TIMEOUT_MS = 1500;
+const BOT_DELAY_MS = 1500; // longer than the roll animation
+
+type TabEnvelope =
+  | { kind: "client"; code: string; from: string; message: ClientMessage | null } // null: that tab left
+  | { kind: "server"; to: string; message: ServerMessage };
+
+// Rooms shared between tabs of one browser, no server needed. The tab that
+// creates a room hosts it and runs the game; other tabs post their messages
+// to it over a BroadcastChannel and get the room back the same way.
+export function connectToTabs(handlers: ConnectionHandlers): RoomConnection {
+  const tabId = crypto.randomUUID();
+  const channel = new BroadcastChannel(TAB_CHANNEL);
+  let host: RoomHost | null = null;
+  let code: string | null = null; // the room this tab is in
+  let joinTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const post = (envelope: TabEnvelope) => channel.postMessage(envelope);
+
+  const receive = (message: ServerMessage) => {
+    if (closed) return;
+    if (message.type === "room") {
+      code = message.room.code;
+      clearTimeout(joinTimer);
+    }
+    if (message.type === "left") code = null;
+    handlers.onMessage(message);
+  };
+
+  const stopHosting = () => {
+    const previous = host;
+    host = null; // first, so this tab does not hear its own room close
+    previous?.close("The host tab closed the room");
+  };
+
+  channel.onmessage = (e: MessageEvent<TabEnvelope>) => {
+    const envelope = e.data;
+    if (envelope.kind === "server") {
+      if (envelope.to === tabId) receive(envelope.message);
+    } else if (host?.hosts(envelope.code)) {
+      if (envelope.message) host.handle(envelope.from, envelope.message);
+      else host.disconnect(envelope.from);
+    }
+  };
+
+  const send = (message: ClientMessage) => {
+    if (message.type === "create_room") {
+      if (code && !host) post({ kind: "client", code, from: tabId, message: null });
+      stopHosting();
+      const created: RoomHost = createRoomHost(
+        (clientId, m) => {
+          if (clientId !== tabId) post({ kind: "server", to: clientId, message: m });
+          else if (host === created) receive(m);
+        },
+        { botDelayMs: BOT_DELAY_MS, random: Math.random, randomSeed, now: Date.now }
+      );
+      host = created;
+      created.handle(tabId, message);
+      return;
+    }
+    if (message.type === "join_room") {
+      const target = normalizeRoomCode(message.code);
+      if (code && !host) post({ kind: "client", code, from: tabId, message: null });
+      stopHosting();
+      code = null;
+      clearTimeout(joinTimer);
+      joinTimer = setTimeout(() => receive({ type: "error", message: `No open tab is hosting room ${target}` }), JOIN_TIMEOUT_MS);
+      post({ kind: "client", code: target, from: tabId, message });
+      return;
+    }
+    if (host) host.handle(tabId, message);
+    else if (code) post({ kind: "client", code, from: tabId, message });
+    else receive({ type: "error", message: "You are not in a room" });
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(joinTimer);
+    if (host) stopHosting();
+    else if (code) post({ kind: "client", code, from: tabId, message: null });
+    window.removeEventListener("pagehide", close);
+    channel.close();
+  };
+
+  window.addEventListener("pagehide", close);
+  handlers.onOpen();
+  return { send, close };
+}
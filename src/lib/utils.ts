@@ -4,3 +4,32 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Fresh seed for a new match (the only place rolls touch Math.random)
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// Save text as a file via a temporary link
+export function downloadFile(filename: string, text: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Date part for exported file names, e.g. 2025-06-01
+export const fileDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// This page's address with a different hash (share links)
+export const pageUrlWithHash = (hash: string) => `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+
+// Copy to the clipboard; false when the browser refuses
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}